@@ -1,16 +1,65 @@
-import type { WebSocketMessage } from "./web-socket-types";
+import type {
+  AuthenticateMessage,
+  BatchMessage,
+  HelloMessage,
+  PingMessage,
+  WebSocketMessage,
+} from "./web-socket-types";
+import { MessageType, PROTOCOL_VERSION } from "./web-socket-types";
+import { parseValue, stringifyValue } from "./values";
+import { v4 as uuidv4 } from "uuid";
+import { apiHash } from "../convex/_generated/api";
 
 export type ConnectionStatus = "connecting" | "connected" | "disconnected";
 
+/**
+ * Returns the token to authenticate with, or `null` when signed out. With
+ * `forceRefreshToken`, a cached token was rejected or is about to expire and
+ * a fresh one should be fetched.
+ */
+export type AuthTokenFetcher = (args: {
+  forceRefreshToken: boolean;
+}) => Promise<string | null | undefined>;
+
+// How long before the identity expires the token is refreshed.
+const TOKEN_REFRESH_LEEWAY_MS = 30000;
+// setTimeout cannot wait longer than ~24.8 days; longer waits are split up.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// The server is pinged this often. Once it has not sent anything for the
+// timeout, the connection is presumed dead and replaced.
+const PING_INTERVAL_MS = 10000;
+const SERVER_SILENCE_TIMEOUT_MS = 25000;
+
 class ConnectionManager {
   private ws: WebSocket | null = null;
   public status: ConnectionStatus = "disconnected";
+  // The session id the server agreed on in the handshake. It stays the same
+  // across reconnects.
+  public sessionId: string | null = null;
+  private proposedSessionId = uuidv4();
+  private helloRequestId: string | null = null;
+  // Set when the server does not speak our protocol; reconnecting is futile.
+  private isRejected = false;
   private statusListeners = new Set<(status: ConnectionStatus) => void>();
   private messageListeners = new Set<(message: WebSocketMessage) => void>();
+  // Requests sent in the current tick, which go out together as a batch.
+  private outgoing: WebSocketMessage[] = [];
 
   private reconnectAttempts = 0;
   private maxReconnectDelay = 30000; // 30 seconds
   private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  // When a server that shuts down asked to be reconnected to.
+  private reconnectHintMs: number | null = null;
+  private lastMessageAt = 0;
+  private heartbeatIntervalId: ReturnType<typeof setInterval> | null = null;
+
+  private auth: {
+    fetchToken: AuthTokenFetcher;
+    onChange?: (isAuthenticated: boolean) => void;
+  } | null = null;
+  private authRequestId: string | null = null;
+  private authRetried = false;
+  private tokenRefreshTimeoutId: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     this.connect();
@@ -36,35 +85,99 @@ class ConnectionManager {
     console.log("[Convex-Lite] WebSocket: Connecting...");
 
     const wsUrl = `ws://${window.location.host.replace(/:\d+$/, "")}:3001`;
-    this.ws = new WebSocket(wsUrl);
+    const ws = new WebSocket(wsUrl);
+    this.ws = ws;
 
-    this.ws.onopen = () => {
+    ws.onopen = () => {
       console.log("[Convex-Lite] WebSocket: Connected!");
-      this.setStatus("connected");
       this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.startHeartbeat(ws);
+      this.helloRequestId = uuidv4();
+      const hello: HelloMessage = {
+        type: MessageType.HELLO,
+        id: this.helloRequestId,
+        protocolVersion: PROTOCOL_VERSION,
+        sessionId: this.sessionId ?? this.proposedSessionId,
+        apiHash,
+      };
+      ws.send(stringifyValue(hello));
     };
 
-    this.ws.onmessage = (event) => {
-      const message = JSON.parse(event.data);
-      this.messageListeners.forEach((listener) => listener(message));
+    ws.onmessage = (event) => {
+      this.lastMessageAt = Date.now();
+      const received = parseValue(event.data) as WebSocketMessage;
+      const messages =
+        received.type === MessageType.BATCH ? received.messages : [received];
+      messages.forEach((message) => {
+        if (message.id && message.id === this.helloRequestId) {
+          void this.handleHelloResponse(ws, message);
+        }
+        if (message.id && message.id === this.authRequestId) {
+          this.authRequestId = null;
+          this.handleAuthResponse(message);
+        } else if (
+          message.type === MessageType.AUTHENTICATED &&
+          message.id === undefined
+        ) {
+          this.handleSignedOut();
+        }
+        if (message.type === MessageType.SERVER_SHUTDOWN) {
+          console.log("[Convex-Lite] WebSocket: The server is shutting down.");
+          this.reconnectHintMs = message.reconnectAfterMs;
+        }
+        this.messageListeners.forEach((listener) => listener(message));
+      });
     };
 
-    this.ws.onclose = () => {
-      console.log("[Convex-Lite] WebSocket: Disconnected.");
-      this.ws = null;
-      if (this.status !== "disconnected") {
-        this.setStatus("disconnected");
-      }
-      this.scheduleReconnect();
-    };
+    ws.onclose = () => this.handleClose(ws);
 
-    this.ws.onerror = (error) => {
+    ws.onerror = (error) => {
       console.error("[Convex-Lite] WebSocket: Error:", error);
       // onclose will be called automatically by the browser after an error.
     };
   };
 
+  private handleClose(ws: WebSocket) {
+    // A connection the watchdog gave up on has been handled already.
+    if (this.ws !== ws) return;
+    console.log("[Convex-Lite] WebSocket: Disconnected.");
+    this.ws = null;
+    this.helloRequestId = null;
+    this.authRequestId = null;
+    if (this.tokenRefreshTimeoutId) clearTimeout(this.tokenRefreshTimeoutId);
+    if (this.heartbeatIntervalId) clearInterval(this.heartbeatIntervalId);
+    if (this.status !== "disconnected") {
+      this.setStatus("disconnected");
+    }
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Pings the server regularly and reconnects once it has gone silent. A
+   * half-open connection, e.g. after the laptop slept or the network changed,
+   * would otherwise look open until the browser notices, which can take
+   * minutes.
+   */
+  private startHeartbeat(ws: WebSocket) {
+    this.heartbeatIntervalId = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > SERVER_SILENCE_TIMEOUT_MS) {
+        console.warn(
+          "[Convex-Lite] WebSocket: The server stopped responding. Reconnecting..."
+        );
+        // Closing a dead connection can take as long as noticing it is dead,
+        // so do not wait for the close event.
+        ws.close();
+        this.handleClose(ws);
+        return;
+      }
+      const ping: PingMessage = { type: MessageType.PING };
+      ws.send(stringifyValue(ping));
+    }, PING_INTERVAL_MS);
+  }
+
   private scheduleReconnect() {
+    if (this.isRejected) return;
     if (this.reconnectAttempts >= 10) {
       console.error(
         "[Convex-Lite] WebSocket: Max reconnect attempts reached. Giving up."
@@ -72,22 +185,151 @@ class ConnectionManager {
       return;
     }
 
-    const delay = Math.min(
-      1000 * Math.pow(2, this.reconnectAttempts),
-      this.maxReconnectDelay
-    );
+    const hintMs = this.reconnectHintMs;
+    this.reconnectHintMs = null;
+    const delay =
+      hintMs ??
+      Math.min(
+        1000 * Math.pow(2, this.reconnectAttempts),
+        this.maxReconnectDelay
+      );
 
     console.log(`[Convex-Lite] WebSocket: Reconnecting in ${delay / 1000}s...`);
 
     this.reconnectTimeoutId = setTimeout(() => {
-      this.reconnectAttempts++;
+      // A planned restart is not a failure, so it does not count as an attempt.
+      if (hintMs === null) this.reconnectAttempts++;
       this.connect();
     }, delay);
   }
 
+  private async handleHelloResponse(ws: WebSocket, message: WebSocketMessage) {
+    if (message.type === MessageType.ERROR) {
+      console.error(`[Convex-Lite] WebSocket: ${message.message}`);
+      // The server closes the connection; trying again will not help.
+      if (message.error.code === "UNSUPPORTED_PROTOCOL") this.isRejected = true;
+      return;
+    }
+    if (message.type !== MessageType.WELCOME) return;
+
+    this.sessionId = message.sessionId;
+    if (message.apiHash !== apiHash) {
+      console.warn(
+        "[Convex-Lite] WebSocket: The server runs a different API than this build of the client. Reload the page if calls fail."
+      );
+    }
+    // Authenticate before anything else is sent, so no request of this
+    // connection runs without the identity.
+    if (this.auth) await this.authenticate(false);
+    if (this.ws !== ws) return;
+    this.setStatus("connected");
+  }
+
+  /**
+   * Authenticates the connection with tokens from `fetchToken`, now and after
+   * every reconnect. The token is refreshed before the identity expires and
+   * once more when the server rejects it. `onChange` is told whether the
+   * server accepted the token.
+   */
+  public setAuth(
+    fetchToken: AuthTokenFetcher,
+    onChange?: (isAuthenticated: boolean) => void
+  ) {
+    this.auth = { fetchToken, onChange };
+    if (this.status === "connected") void this.authenticate(false);
+  }
+
+  /**
+   * Signs the connection out.
+   */
+  public clearAuth() {
+    this.auth = null;
+    if (this.tokenRefreshTimeoutId) clearTimeout(this.tokenRefreshTimeoutId);
+    if (this.status === "connected") this.sendAuthenticate(null);
+  }
+
+  private async authenticate(forceRefreshToken: boolean) {
+    if (!this.auth) return;
+    this.authRetried = forceRefreshToken;
+    let token: string | null = null;
+    try {
+      token = (await this.auth.fetchToken({ forceRefreshToken })) ?? null;
+    } catch (error) {
+      console.error("[Convex-Lite] Auth: Failed to fetch token:", error);
+    }
+    this.sendAuthenticate(token);
+  }
+
+  private sendAuthenticate(token: string | null) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    // Requests made before the identity changed still go out with the old one.
+    this.flush();
+    this.authRequestId = uuidv4();
+    const message: AuthenticateMessage = {
+      type: MessageType.AUTHENTICATE,
+      id: this.authRequestId,
+      token,
+    };
+    this.ws.send(stringifyValue(message));
+  }
+
+  private handleAuthResponse(message: WebSocketMessage) {
+    if (!this.auth) return;
+    if (message.type === MessageType.AUTHENTICATED) {
+      this.auth.onChange?.(message.identity !== null);
+      if (this.tokenRefreshTimeoutId) clearTimeout(this.tokenRefreshTimeoutId);
+      if (message.expiresAt !== undefined) {
+        // Short-lived tokens are refreshed halfway through their lifetime.
+        const now = Date.now();
+        const remaining = message.expiresAt - now;
+        this.scheduleTokenRefresh(
+          now + Math.max(remaining - TOKEN_REFRESH_LEEWAY_MS, remaining / 2)
+        );
+      }
+    } else if (message.type === MessageType.ERROR) {
+      // The token may just be stale; try once more with a fresh one.
+      if (!this.authRetried) {
+        void this.authenticate(true);
+      } else {
+        console.error(`[Convex-Lite] Auth: ${message.message}`);
+        this.auth.onChange?.(false);
+      }
+    }
+  }
+
+  private scheduleTokenRefresh(refreshAt: number) {
+    const delay = Math.min(
+      Math.max(refreshAt - Date.now(), 0),
+      MAX_TIMER_DELAY_MS
+    );
+    this.tokenRefreshTimeoutId = setTimeout(() => {
+      if (Date.now() < refreshAt) {
+        this.scheduleTokenRefresh(refreshAt);
+      } else {
+        void this.authenticate(true);
+      }
+    }, delay);
+  }
+
+  // The server signed the connection out, e.g. because the session was
+  // revoked in another tab. An authentication that is under way decides
+  // instead, since it may be for a new session.
+  private handleSignedOut() {
+    if (!this.auth || this.authRequestId !== null) return;
+    if (this.tokenRefreshTimeoutId) clearTimeout(this.tokenRefreshTimeoutId);
+    console.log("[Convex-Lite] Auth: Signed out by the server.");
+    this.auth.onChange?.(false);
+  }
+
+  /**
+   * Queues a message for sending. Everything sent within the same tick goes
+   * out in a single frame, e.g. the queries of all components that mount
+   * together.
+   */
   public sendMessage(message: WebSocketMessage) {
     if (this.status === "connected" && this.ws) {
-      this.ws.send(JSON.stringify(message));
+      this.outgoing.push(message);
+      if (this.outgoing.length === 1) queueMicrotask(() => this.flush());
     } else {
       console.error(
         "[Convex-Lite] WebSocket: Cannot send message, not connected.",
@@ -96,6 +338,24 @@ class ConnectionManager {
     }
   }
 
+  private flush() {
+    const messages = this.outgoing;
+    if (messages.length === 0) return;
+    this.outgoing = [];
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.error(
+        "[Convex-Lite] WebSocket: Cannot send messages, not connected.",
+        messages
+      );
+      return;
+    }
+    const frame: WebSocketMessage =
+      messages.length === 1
+        ? messages[0]
+        : ({ type: MessageType.BATCH, messages } satisfies BatchMessage);
+    this.ws.send(stringifyValue(frame));
+  }
+
   public subscribeToMessages(
     callback: (message: WebSocketMessage) => void
   ): () => void {
@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type { WrappedApiFunction } from "convex/_lib/server";
+import { stringifyValue } from "./values";
 
 // --- Generic Type Helpers ---
 // These are defined here because they are essential for the `localStore` object.
@@ -61,7 +62,7 @@ export const queryCache = new QueryCache();
  * @returns A unique string cache key.
  */
 export function getQueryCacheKey(queryKeyString: string, params: any): string {
-  return JSON.stringify([queryKeyString, params || null]);
+  return stringifyValue([queryKeyString, params || null]);
 }
 
 // --- The LocalStore for Optimistic Updates ---
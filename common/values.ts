@@ -0,0 +1,133 @@
+/**
+ * Values that JSON cannot represent travel as tagged objects with a single
+ * `$`-prefixed key:
+ *
+ * - `Date` as `{ $date: <milliseconds since the epoch> }`
+ * - `bigint` as `{ $integer: "<decimal digits>" }`
+ * - `Uint8Array` (and so `Buffer`) and `ArrayBuffer` as `{ $bytes: "<base64>" }`
+ * - `undefined` as `{ $undefined: null }`, so it survives in arrays and as
+ *   a return value. Object properties that are `undefined` are left out, as
+ *   with JSON.
+ *
+ * A plain object that looks like a tag itself is wrapped in `{ $object: ... }`.
+ * Bytes are decoded as a `Uint8Array`.
+ */
+
+const TAGS = ["$date", "$integer", "$bytes", "$undefined", "$object"];
+
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked, since spreading a large array exceeds the argument limit.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function encodeEntries(value: object): Record<string, unknown> {
+  const encoded: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== undefined) encoded[key] = encodeValue(entry);
+  }
+  return encoded;
+}
+
+/**
+ * Turns a value into one that survives `JSON.stringify`, tagging the values
+ * JSON cannot represent. Objects with a `toJSON` method are encoded as what
+ * it returns, like `JSON.stringify` would.
+ */
+export function encodeValue(value: unknown): unknown {
+  if (value === undefined) return { $undefined: null };
+  if (typeof value === "bigint") return { $integer: value.toString() };
+  if (typeof value !== "object" || value === null) return value;
+  if (value instanceof Date) return { $date: value.getTime() };
+  if (value instanceof Uint8Array) return { $bytes: toBase64(value) };
+  if (value instanceof ArrayBuffer) {
+    return { $bytes: toBase64(new Uint8Array(value)) };
+  }
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (!isPlainObject(value) && "toJSON" in value) {
+    return encodeValue((value as { toJSON: () => unknown }).toJSON());
+  }
+  const keys = Object.keys(value);
+  if (keys.length === 1 && TAGS.includes(keys[0])) {
+    return { $object: encodeEntries(value) };
+  }
+  return encodeEntries(value);
+}
+
+function decodeEntries(value: object): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    decoded[key] = decodeValue(entry);
+  }
+  return decoded;
+}
+
+/**
+ * The inverse of `encodeValue`.
+ */
+export function decodeValue(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (Array.isArray(value)) return value.map(decodeValue);
+  const keys = Object.keys(value);
+  if (keys.length === 1 && TAGS.includes(keys[0])) {
+    const tagged = value as Record<string, unknown>;
+    switch (keys[0]) {
+      case "$date":
+        return new Date(tagged.$date as number);
+      case "$integer":
+        return BigInt(tagged.$integer as string);
+      case "$bytes":
+        return fromBase64(tagged.$bytes as string);
+      case "$undefined":
+        return undefined;
+      case "$object":
+        return decodeEntries(tagged.$object as object);
+    }
+  }
+  return decodeEntries(value);
+}
+
+/**
+ * Serializes a value for the wire, encoding the values JSON cannot hold.
+ */
+export function stringifyValue(value: unknown): string {
+  return JSON.stringify(encodeValue(value));
+}
+
+/**
+ * Parses what `stringifyValue` produced.
+ */
+export function parseValue(text: string): unknown {
+  return decodeValue(JSON.parse(text));
+}
+
+/**
+ * Like `stringifyValue`, but with object keys in sorted order, so values
+ * that are equal serialize the same regardless of how they were built.
+ */
+export function stringifyCanonicalValue(value: unknown): string {
+  return JSON.stringify(encodeValue(value), (_key, encoded) =>
+    encoded && typeof encoded === "object" && !Array.isArray(encoded)
+      ? Object.fromEntries(
+          Object.entries(encoded).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : encoded
+  );
+}
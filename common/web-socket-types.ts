@@ -1,9 +1,29 @@
+import type { UserIdentity } from "../convex/_lib/auth";
+import type { SerializedError } from "../convex/_lib/errors";
+
+/**
+ * The version of the protocol this build speaks. Bump it with every change
+ * that old clients or servers cannot handle.
+ */
+export const PROTOCOL_VERSION = 1;
+
 export const MessageType = {
   QUERY: "QUERY",
   MUTATION: "MUTATION",
+  ACTION: "ACTION",
+  SUBSCRIBE: "SUBSCRIBE",
+  UNSUBSCRIBE: "UNSUBSCRIBE",
   DATA_UPDATE: "DATA_UPDATE",
   REQUERY: "REQUERY",
   ERROR: "ERROR",
+  AUTHENTICATE: "AUTHENTICATE",
+  AUTHENTICATED: "AUTHENTICATED",
+  BATCH: "BATCH",
+  HELLO: "HELLO",
+  WELCOME: "WELCOME",
+  PING: "PING",
+  PONG: "PONG",
+  SERVER_SHUTDOWN: "SERVER_SHUTDOWN",
 } as const;
 
 export type MessageType = (typeof MessageType)[keyof typeof MessageType];
@@ -25,6 +45,28 @@ export interface MutationRequestMessage extends BaseMessage {
   args?: unknown;
 }
 
+export interface ActionRequestMessage extends BaseMessage {
+  type: typeof MessageType.ACTION;
+  actionKey: string;
+  args?: unknown;
+}
+
+/**
+ * Registers a live subscription. The server answers with a `DATA_UPDATE`
+ * carrying the same `id`, and pushes a new one whenever the query is invalidated.
+ */
+export interface SubscribeMessage extends BaseMessage {
+  type: typeof MessageType.SUBSCRIBE;
+  id: string;
+  queryKey: string;
+  params?: unknown;
+}
+
+export interface UnsubscribeMessage extends BaseMessage {
+  type: typeof MessageType.UNSUBSCRIBE;
+  id: string; // The id the subscription was created with
+}
+
 export interface DataResponseMessage<T = unknown> extends BaseMessage {
   type: typeof MessageType.DATA_UPDATE;
   queryKey?: string; // To identify which query this data is for
@@ -32,23 +74,124 @@ export interface DataResponseMessage<T = unknown> extends BaseMessage {
   data: T;
 }
 
+/**
+ * Asks clients to re-subscribe to a query. Regular invalidations are pushed
+ * as `DATA_UPDATE` messages to the subscriptions directly.
+ */
 export interface RequeryMessage extends BaseMessage {
   type: typeof MessageType.REQUERY;
   queryKey: string;
+  params?: unknown; // When present, only subscriptions with these exact args re-subscribe
 }
 
+/**
+ * A failed request. `message` is meant for logs; clients act on the
+ * structured `error`, which carries the code, data and validation issues.
+ */
 export interface ErrorResponseMessage extends BaseMessage {
   type: typeof MessageType.ERROR;
   queryKey?: string;
   mutationKey?: string;
   id?: string; // Ensure errors can carry the request ID back
   message: string;
-  error?: unknown;
+  error: SerializedError;
+}
+
+/**
+ * Sets the identity of the connection. Can be sent at any time, e.g. when the
+ * token was refreshed; `null` signs the connection out. Live subscriptions
+ * are re-run for the new identity.
+ */
+export interface AuthenticateMessage extends BaseMessage {
+  type: typeof MessageType.AUTHENTICATE;
+  token: string | null;
+}
+
+/**
+ * Confirms an `AuthenticateMessage`. A rejected token is answered with an
+ * `ErrorResponseMessage` instead, and the connection is left unauthenticated.
+ * Without an `id`, the server signed the connection out on its own, because
+ * its token stopped working, e.g. when the session was revoked.
+ */
+export interface AuthenticatedMessage extends BaseMessage {
+  type: typeof MessageType.AUTHENTICATED;
+  identity: UserIdentity | null;
+  expiresAt?: number; // When the identity expires and the token should be refreshed
+}
+
+/**
+ * The first message of every connection; the server rejects other requests
+ * until it has been answered. `sessionId` is the client's id for its
+ * session, kept across reconnects, and `apiHash` the fingerprint of the API
+ * the client was built against. A server that does not speak
+ * `protocolVersion` answers with an `UNSUPPORTED_PROTOCOL` error and closes
+ * the connection.
+ */
+export interface HelloMessage extends BaseMessage {
+  type: typeof MessageType.HELLO;
+  protocolVersion: number;
+  sessionId?: string;
+  apiHash?: string;
+}
+
+/**
+ * Accepts a `HelloMessage`. `sessionId` is the session id the client
+ * proposed, or a new one if it did not propose a usable one. `apiHash` is the
+ * fingerprint of the API the server runs.
+ */
+export interface WelcomeMessage extends BaseMessage {
+  type: typeof MessageType.WELCOME;
+  protocolVersion: number;
+  sessionId: string;
+  apiHash: string;
+}
+
+/**
+ * Checks that the connection is alive. The server answers every `PING` with
+ * a `PONG` carrying the same `id`, even before the handshake.
+ */
+export interface PingMessage extends BaseMessage {
+  type: typeof MessageType.PING;
+}
+
+export interface PongMessage extends BaseMessage {
+  type: typeof MessageType.PONG;
+}
+
+/**
+ * Sent right before the server closes the connection because it is shutting
+ * down, e.g. for a restart. Requests in flight have been answered by then.
+ * Clients should reconnect after `reconnectAfterMs` rather than back off.
+ */
+export interface ServerShutdownMessage extends BaseMessage {
+  type: typeof MessageType.SERVER_SHUTDOWN;
+  reconnectAfterMs: number;
+}
+
+/**
+ * Several messages in one frame. The client batches the requests it sends
+ * within the same tick; the server runs them and answers with one batch of
+ * all their responses. Batches do not nest.
+ */
+export interface BatchMessage extends BaseMessage {
+  type: typeof MessageType.BATCH;
+  messages: WebSocketMessage[];
 }
 
 export type WebSocketMessage =
   | QueryRequestMessage
   | MutationRequestMessage
+  | ActionRequestMessage
+  | SubscribeMessage
+  | UnsubscribeMessage
   | DataResponseMessage // This generic can now be used with specific types like DataResponseMessage<Counter> or DataResponseMessage<TextEntry[]>
   | RequeryMessage
-  | ErrorResponseMessage;
+  | ErrorResponseMessage
+  | AuthenticateMessage
+  | AuthenticatedMessage
+  | BatchMessage
+  | HelloMessage
+  | WelcomeMessage
+  | PingMessage
+  | PongMessage
+  | ServerShutdownMessage;
@@ -3,21 +3,41 @@
 /* eslint-disable */
 /* tslint:disable */
 
+import type * as attachments from "../attachments";
+import type * as auth from "../auth";
 import type * as columns from "../columns";
 import type * as tables from "../tables";
 import type * as tasks from "../tasks";
 
 /**
  * A type helper to build the API from modules, preserving the original function definitions.
+ * Internal functions are only exposed through `internal`.
  */
 type ApiFromModules<Modules extends Record<string, any>> = {
-  [ModuleName in keyof Modules]: Modules[ModuleName];
+  [ModuleName in keyof Modules]: {
+    [Name in keyof Modules[ModuleName] as Modules[ModuleName][Name] extends { _internal: true } ? never : Name]: Modules[ModuleName][Name];
+  };
+};
+
+type InternalApiFromModules<Modules extends Record<string, any>> = {
+  [ModuleName in keyof Modules]: {
+    [Name in keyof Modules[ModuleName] as Modules[ModuleName][Name] extends { _internal: true } ? Name : never]: Modules[ModuleName][Name];
+  };
 };
 
 declare const fullApi: ApiFromModules<{
+  attachments: typeof attachments;
+  auth: typeof auth;
   columns: typeof columns;
   tables: typeof tables;
   tasks: typeof tasks;
 }>;
 
+declare const fullInternalApi: InternalApiFromModules<{
+  attachments: typeof attachments;
+  auth: typeof auth;
+}>;
+
 export declare const api: typeof fullApi;
+export declare const internal: typeof fullInternalApi;
+export declare const apiHash: string;
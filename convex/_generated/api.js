@@ -4,6 +4,18 @@
 /* tslint:disable */
 
 export const api = {
+  attachments: {
+    addAttachment: "attachments:addAttachment",
+    deleteAttachment: "attachments:deleteAttachment",
+    generateUploadUrl: "attachments:generateUploadUrl",
+  },
+  auth: {
+    currentUser: "auth:currentUser",
+    refreshSession: "auth:refreshSession",
+    signIn: "auth:signIn",
+    signOut: "auth:signOut",
+    signUp: "auth:signUp",
+  },
   columns: {
     createColumn: "columns:createColumn",
     deleteColumn: "columns:deleteColumn",
@@ -11,6 +23,7 @@ export const api = {
   },
   tables: {
     getAdminTableData: "tables:getAdminTableData",
+    getCronJobs: "tables:getCronJobs",
   },
   tasks: {
     createTask: "tasks:createTask",
@@ -19,3 +32,16 @@ export const api = {
     updateTask: "tasks:updateTask",
   },
 };
+
+export const internal = {
+  attachments: {
+    deleteOrphanedFiles: "attachments:deleteOrphanedFiles",
+  },
+  auth: {
+    createUser: "auth:createUser",
+    findUser: "auth:findUser",
+    startSession: "auth:startSession",
+  },
+};
+
+export const apiHash = "83e5d40937f84961";
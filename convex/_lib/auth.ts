@@ -0,0 +1,110 @@
+import { eq } from "drizzle-orm";
+import type { SQLiteColumn, SQLiteTable } from "drizzle-orm/sqlite-core";
+import type { HandlerContext as BaseHandlerContext } from "../../server/server";
+import { verifyJwt, type JwtVerificationOptions } from "../../server/lib/auth";
+
+// --- Identity Types ---
+
+/**
+ * Who is calling a function. `subject` is the user id and
+ * `tokenIdentifier` is unique across all verifiers, so it is the safest
+ * value to store alongside a user's data.
+ */
+export interface UserIdentity {
+  subject: string;
+  tokenIdentifier: string;
+  issuer?: string;
+  name?: string;
+  email?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * The result of a successful token verification. After `expiresAt`
+ * (a timestamp in milliseconds) the identity is no longer handed out.
+ */
+export interface VerifiedToken {
+  identity: UserIdentity;
+  expiresAt?: number;
+}
+
+/**
+ * Turns the token a client sent into an identity. Return `null` or throw
+ * when the token is not valid. The verifier is the default export of
+ * `convex/auth.config.ts`.
+ */
+export type AuthVerifier = (
+  token: string,
+  ctx: { db: BaseHandlerContext["db"] }
+) => Promise<VerifiedToken | null>;
+
+/**
+ * `ctx.auth` in queries, mutations and actions.
+ */
+export interface Auth {
+  /**
+   * The identity of the client that called the function, or `null` if it
+   * is not authenticated. Scheduled functions and crons have no identity.
+   */
+  getUserIdentity: () => Promise<UserIdentity | null>;
+}
+
+// --- Verifiers ---
+
+/**
+ * Verifies JWTs signed with a shared secret. The `sub` claim becomes the
+ * subject and all other claims are passed through on the identity.
+ */
+export function jwtVerifier(options: JwtVerificationOptions): AuthVerifier {
+  return async (token) => {
+    const { sub, iss, exp, ...claims } = verifyJwt(token, options);
+    return {
+      identity: {
+        ...claims,
+        subject: sub!,
+        issuer: iss,
+        tokenIdentifier: `${iss ?? ""}|${sub}`,
+      },
+      expiresAt: exp === undefined ? undefined : exp * 1000,
+    };
+  };
+}
+
+export interface SessionVerifierOptions {
+  // The table holding one row per session.
+  table: SQLiteTable;
+  // The column the token is looked up in.
+  token: SQLiteColumn;
+  // The column holding the id of the session's user.
+  userId: SQLiteColumn;
+  // An optional column holding when the session expires.
+  expiresAt?: SQLiteColumn;
+}
+
+/**
+ * Treats the token as a session id and looks it up in a table of the app.
+ */
+export function sessionVerifier(options: SessionVerifierOptions): AuthVerifier {
+  return async (token, { db }) => {
+    const fields: Record<string, SQLiteColumn> = { userId: options.userId };
+    if (options.expiresAt) fields.expiresAt = options.expiresAt;
+    const session = db
+      .select(fields)
+      .from(options.table)
+      .where(eq(options.token, token))
+      .get() as { userId: unknown; expiresAt?: number | Date } | undefined;
+    if (!session) return null;
+
+    const expiresAt =
+      session.expiresAt === undefined || session.expiresAt === null
+        ? undefined
+        : new Date(session.expiresAt).getTime();
+    if (expiresAt !== undefined && expiresAt <= Date.now()) return null;
+
+    const subject = String(session.userId);
+    return {
+      identity: { subject, tokenIdentifier: `session|${subject}` },
+      expiresAt,
+    };
+  };
+}
@@ -0,0 +1,173 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { asc } from "drizzle-orm";
+import type { FunctionArgs, WrappedApiFunction } from "./server";
+import type { HandlerContext as BaseHandlerContext } from "../../server/server";
+import { parseCronExpression } from "../../server/lib/cron-schedule";
+import { cronJobsTable } from "../../server/lib/system-tables";
+
+// --- Schedule Types ---
+
+export type CronSchedule =
+  { type: "interval"; ms: number } | { type: "cron"; expression: string };
+
+export interface CronJob {
+  name: string;
+  schedule: CronSchedule;
+  // A mutation or action, either the imported function or its generated API key.
+  functionRef: WrappedApiFunction<any, any> | string;
+  args: unknown;
+}
+
+export interface IntervalSchedule {
+  seconds?: number;
+  minutes?: number;
+  hours?: number;
+}
+
+const DAYS_OF_WEEK = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+// --- The Registry ---
+
+/**
+ * The registry of recurring jobs. Declare jobs on it in `convex/crons.ts`
+ * and export it as the default export; the server picks it up on start.
+ * All wall-clock schedules are in UTC.
+ */
+export class Crons {
+  readonly jobs = new Map<string, CronJob>();
+
+  private add(
+    name: string,
+    schedule: CronSchedule,
+    functionRef: WrappedApiFunction<any, any> | string,
+    args: unknown
+  ) {
+    if (this.jobs.has(name)) {
+      throw new Error(`A cron job named "${name}" is already registered.`);
+    }
+    this.jobs.set(name, { name, schedule, functionRef, args });
+  }
+
+  /**
+   * Runs the function every `seconds`/`minutes`/`hours`, counted from the
+   * start of the previous run.
+   */
+  interval<Args>(
+    name: string,
+    every: IntervalSchedule,
+    functionRef: WrappedApiFunction<Args, any>,
+    ...args: FunctionArgs<Args>
+  ) {
+    const ms =
+      ((every.hours ?? 0) * 3600 +
+        (every.minutes ?? 0) * 60 +
+        (every.seconds ?? 0)) *
+      1000;
+    if (!(ms > 0)) {
+      throw new Error(`Cron job "${name}" needs a positive interval.`);
+    }
+    this.add(name, { type: "interval", ms }, functionRef, args[0]);
+  }
+
+  hourly<Args>(
+    name: string,
+    at: { minuteUTC: number },
+    functionRef: WrappedApiFunction<Args, any>,
+    ...args: FunctionArgs<Args>
+  ) {
+    this.cron(name, `${at.minuteUTC} * * * *`, functionRef, ...args);
+  }
+
+  daily<Args>(
+    name: string,
+    at: { hourUTC: number; minuteUTC: number },
+    functionRef: WrappedApiFunction<Args, any>,
+    ...args: FunctionArgs<Args>
+  ) {
+    this.cron(
+      name,
+      `${at.minuteUTC} ${at.hourUTC} * * *`,
+      functionRef,
+      ...args
+    );
+  }
+
+  weekly<Args>(
+    name: string,
+    at: {
+      dayOfWeek: (typeof DAYS_OF_WEEK)[number];
+      hourUTC: number;
+      minuteUTC: number;
+    },
+    functionRef: WrappedApiFunction<Args, any>,
+    ...args: FunctionArgs<Args>
+  ) {
+    const day = DAYS_OF_WEEK.indexOf(at.dayOfWeek);
+    this.cron(
+      name,
+      `${at.minuteUTC} ${at.hourUTC} * * ${day}`,
+      functionRef,
+      ...args
+    );
+  }
+
+  /**
+   * Runs the function on a standard five-field cron expression,
+   * e.g. `"0 9 * * 1-5"` for 09:00 UTC on weekdays.
+   */
+  cron<Args>(
+    name: string,
+    expression: string,
+    functionRef: WrappedApiFunction<Args, any>,
+    ...args: FunctionArgs<Args>
+  ) {
+    // Fail at load time rather than when the job is due.
+    parseCronExpression(expression);
+    this.add(name, { type: "cron", expression }, functionRef, args[0]);
+  }
+}
+
+export function cronJobs(): Crons {
+  return new Crons();
+}
+
+// --- Job Status ---
+
+export interface CronJobStatus {
+  name: string;
+  schedule: CronSchedule;
+  lastRunAt: number | null;
+  // How the last finished run went, `null` if none has finished yet.
+  lastState: "success" | "failed" | "skipped" | null;
+  nextRunAt: number;
+  isRunning: boolean;
+}
+
+/**
+ * The last and next run of every cron job the server runs, by name. Meant
+ * for admin queries.
+ */
+export async function listCronJobs(ctx: {
+  db: BaseHandlerContext["db"];
+}): Promise<CronJobStatus[]> {
+  const rows = await ctx.db
+    .select()
+    .from(cronJobsTable)
+    .orderBy(asc(cronJobsTable.name));
+  return rows.map((row) => ({
+    name: row.name,
+    schedule: JSON.parse(row.schedule) as CronSchedule,
+    lastRunAt: row.last_run_at,
+    lastState: row.last_state,
+    nextRunAt: row.next_run_at,
+    isRunning: row.is_running,
+  }));
+}
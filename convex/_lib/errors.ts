@@ -0,0 +1,101 @@
+/**
+ * One invalid field of a function's arguments. `path` leads to the field,
+ * e.g. `["address", "zip"]`; it is empty when the arguments as a whole are
+ * invalid.
+ */
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+  code: string;
+}
+
+/**
+ * How a `ConvexLiteError` travels to the client, in the `error` field of an
+ * `ErrorResponseMessage` or an HTTP error response.
+ */
+export interface SerializedError<Data = unknown> {
+  code: string;
+  message: string;
+  data?: Data;
+  issues?: ValidationIssue[]; // Only set for `VALIDATION_ERROR`
+}
+
+/**
+ * An error with a machine-readable `code` and an optional serializable
+ * `data` payload, both of which reach the client as they are. Throw it from a
+ * handler for failures the client should act on; any other error reaches the
+ * client as an `INTERNAL_ERROR`.
+ *
+ * The server uses these codes itself: `VALIDATION_ERROR` (with `issues`),
+ * `UNAUTHENTICATED`, `FORBIDDEN`, `NOT_FOUND`, `BAD_REQUEST`, `RATE_LIMITED`
+ * (with `data.retryAfter`) and `INTERNAL_ERROR`.
+ *
+ * @example
+ * throw new ConvexLiteError("COLUMN_FULL", "The column is full.", { limit: 20 });
+ */
+export class ConvexLiteError<Data = unknown> extends Error {
+  readonly code: string;
+  readonly data: Data | undefined;
+  readonly issues: ValidationIssue[] | undefined;
+
+  constructor(
+    code: string,
+    message: string,
+    data?: Data,
+    issues?: ValidationIssue[]
+  ) {
+    super(message);
+    this.name = "ConvexLiteError";
+    this.code = code;
+    this.data = data;
+    this.issues = issues;
+  }
+
+  toJSON(): SerializedError<Data> {
+    return {
+      code: this.code,
+      message: this.message,
+      data: this.data,
+      issues: this.issues,
+    };
+  }
+
+  static fromJSON<Data = unknown>(
+    serialized: SerializedError<Data>
+  ): ConvexLiteError<Data> {
+    return new ConvexLiteError(
+      serialized.code,
+      serialized.message,
+      serialized.data,
+      serialized.issues
+    );
+  }
+}
+
+/**
+ * The first issue message of each invalid field, keyed by its dotted path,
+ * e.g. `{ "address.zip": "Invalid input" }`. Handy for showing validation
+ * errors next to form inputs.
+ */
+export function getFieldErrors(
+  error: ConvexLiteError | null | undefined
+): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error?.issues ?? []) {
+    const field = issue.path.join(".");
+    fieldErrors[field] ??= issue.message;
+  }
+  return fieldErrors;
+}
+
+/**
+ * How many milliseconds to wait before retrying a call that failed with
+ * `RATE_LIMITED`, or `null` for any other error.
+ */
+export function getRetryAfter(
+  error: ConvexLiteError | null | undefined
+): number | null {
+  if (error?.code !== "RATE_LIMITED") return null;
+  const { retryAfter } = (error.data ?? {}) as { retryAfter?: unknown };
+  return typeof retryAfter === "number" ? retryAfter : null;
+}
@@ -0,0 +1,82 @@
+import type { ActionContext } from "./server";
+
+// --- HTTP Actions ---
+
+/**
+ * A handler for HTTP requests. It gets the same context as an action and
+ * the standard Fetch API `Request`, and answers with a `Response`.
+ */
+export interface HttpAction {
+  _type: "httpAction";
+  handler: (ctx: ActionContext, request: Request) => Promise<Response>;
+}
+
+export function httpAction(
+  handler: (ctx: ActionContext, request: Request) => Promise<Response>
+): HttpAction {
+  return { _type: "httpAction", handler };
+}
+
+// --- The Router ---
+
+export type HttpMethod =
+  "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
+
+/**
+ * A route matches either one exact `path` or every path that starts with
+ * `pathPrefix`, which has to end with a slash.
+ */
+export type HttpRoute = { method: HttpMethod; handler: HttpAction } & (
+  | { path: string; pathPrefix?: undefined }
+  | { pathPrefix: string; path?: undefined }
+);
+
+/**
+ * The routes of the HTTP API. Declare routes on it in `convex/http.ts` and
+ * export it as the default export; the server mounts them on its Express app.
+ */
+export class HttpRouter {
+  readonly routes: HttpRoute[] = [];
+
+  route(route: HttpRoute) {
+    const pathOrPrefix = route.path ?? route.pathPrefix;
+    if (!pathOrPrefix.startsWith("/")) {
+      throw new Error(`Route paths must start with "/": ${pathOrPrefix}`);
+    }
+    if (route.pathPrefix !== undefined && !route.pathPrefix.endsWith("/")) {
+      throw new Error(`Path prefixes must end with "/": ${route.pathPrefix}`);
+    }
+    const isDuplicate = this.routes.some(
+      (existing) =>
+        existing.method === route.method &&
+        existing.path === route.path &&
+        existing.pathPrefix === route.pathPrefix
+    );
+    if (isDuplicate) {
+      throw new Error(
+        `A route for ${route.method} ${pathOrPrefix} is already registered.`
+      );
+    }
+    this.routes.push(route);
+  }
+
+  /**
+   * Finds the route for a request. Exact paths win over prefixes, and longer
+   * prefixes over shorter ones.
+   */
+  lookup(method: string, path: string): HttpRoute | undefined {
+    const candidates = this.routes.filter((route) => route.method === method);
+    const exact = candidates.find((route) => route.path === path);
+    if (exact) return exact;
+    return candidates
+      .filter(
+        (route) =>
+          route.pathPrefix !== undefined && path.startsWith(route.pathPrefix)
+      )
+      .sort((a, b) => b.pathPrefix!.length - a.pathPrefix!.length)[0];
+  }
+}
+
+export function httpRouter(): HttpRouter {
+  return new HttpRouter();
+}
@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import path from "path";
+import Database from "better-sqlite3";
+import type { InvalidationFilter } from "./server";
+import { parseValue, stringifyValue } from "../../common/values";
+
+/**
+ * Live queries that have to be re-run, on every server instance.
+ */
+export interface Invalidation {
+  // The tables a mutation wrote to. Subscriptions that read from one of them
+  // are re-run.
+  tables: string[];
+  // The queries invalidated with `ctx.scheduler.invalidate`, by their key.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  queries: { queryKey: string; filter?: InvalidationFilter<any> }[];
+}
+
+/**
+ * Carries invalidations to every server instance, so the clients connected
+ * to one instance see the writes made through another. The bus is the
+ * default export of `convex/invalidation.config.ts`, and defaults to
+ * `inProcessInvalidationBus()`.
+ */
+export interface InvalidationBus {
+  // Starts delivering the invalidations of all instances to `onInvalidation`.
+  start: (
+    onInvalidation: (invalidation: Invalidation) => Promise<void>
+  ) => Promise<void>;
+  // Sends an invalidation to every instance, this one included. Resolves once
+  // this instance has applied it.
+  publish: (invalidation: Invalidation) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Delivers invalidations within the process only. Enough for a single
+ * server instance.
+ */
+export function inProcessInvalidationBus(): InvalidationBus {
+  let onInvalidation: ((invalidation: Invalidation) => Promise<void>) | null =
+    null;
+  return {
+    start: async (listener) => {
+      onInvalidation = listener;
+    },
+    publish: async (invalidation) => {
+      await onInvalidation?.(invalidation);
+    },
+    stop: async () => {
+      onInvalidation = null;
+    },
+  };
+}
+
+export interface SqliteInvalidationBusOptions {
+  // The database file the invalidations are logged in, shared by all
+  // instances. Defaults to `invalidations.sqlite3`.
+  file?: string;
+  // How often every instance checks for invalidations of the others.
+  pollIntervalMs?: number;
+  // How long invalidations are kept. An instance that could not check for
+  // longer than this misses some.
+  retentionMs?: number;
+}
+
+/**
+ * Delivers invalidations across the server processes of one machine. Every
+ * invalidation is appended to a log in a SQLite file, which every instance
+ * polls for the entries of the others.
+ *
+ * Predicates passed to `ctx.scheduler.invalidate` cannot be sent to another
+ * process, so there they invalidate every subscription to the query.
+ */
+export function sqliteInvalidationBus(
+  options: SqliteInvalidationBusOptions = {}
+): InvalidationBus {
+  const file = path.resolve(options.file ?? "invalidations.sqlite3");
+  const pollIntervalMs = options.pollIntervalMs ?? 100;
+  const retentionMs = options.retentionMs ?? 60000;
+  const instanceId = crypto.randomUUID();
+
+  let sqlite: Database.Database | null = null;
+  let onInvalidation: ((invalidation: Invalidation) => Promise<void>) | null =
+    null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let lastId = 0;
+  let isPolling = false;
+
+  const poll = async () => {
+    if (!sqlite || isPolling) return;
+    isPolling = true;
+    try {
+      const rows = sqlite
+        .prepare(
+          "SELECT id, instance_id, payload FROM invalidations WHERE id > ? ORDER BY id"
+        )
+        .all(lastId) as { id: number; instance_id: string; payload: string }[];
+      for (const row of rows) {
+        lastId = row.id;
+        // Our own invalidations were applied when they were published.
+        if (row.instance_id === instanceId) continue;
+        await onInvalidation?.(parseValue(row.payload) as Invalidation);
+      }
+    } finally {
+      isPolling = false;
+    }
+  };
+
+  return {
+    start: async (listener) => {
+      onInvalidation = listener;
+      sqlite = new Database(file);
+      // Lets instances read the log while another one appends to it.
+      sqlite.pragma("journal_mode = WAL");
+      sqlite.exec(
+        `CREATE TABLE IF NOT EXISTS invalidations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          instance_id TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        )`
+      );
+      // Invalidations from before the start concern no subscription of ours.
+      const latest = sqlite
+        .prepare("SELECT COALESCE(MAX(id), 0) AS id FROM invalidations")
+        .get() as { id: number };
+      lastId = latest.id;
+      timer = setInterval(() => {
+        poll().catch((error) =>
+          console.error("[Invalidations] Failed to poll:", error)
+        );
+      }, pollIntervalMs);
+    },
+    publish: async (invalidation) => {
+      const log = sqlite;
+      if (log) {
+        const payload: Invalidation = {
+          tables: invalidation.tables,
+          queries: invalidation.queries.map(({ queryKey, filter }) => ({
+            queryKey,
+            filter: typeof filter === "function" ? undefined : filter,
+          })),
+        };
+        const now = Date.now();
+        log.transaction(() => {
+          log
+            .prepare(
+              "INSERT INTO invalidations (instance_id, payload, created_at) VALUES (?, ?, ?)"
+            )
+            .run(instanceId, stringifyValue(payload), now);
+          log
+            .prepare("DELETE FROM invalidations WHERE created_at < ?")
+            .run(now - retentionMs);
+        })();
+      }
+      await onInvalidation?.(invalidation);
+    },
+    stop: async () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+      onInvalidation = null;
+      sqlite?.close();
+      sqlite = null;
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import type { Auth, UserIdentity } from "./auth";
+import { ConvexLiteError } from "./errors";
+
+/**
+ * Thrown by the auth middleware. `code` tells apart callers that are not
+ * signed in from callers that lack a role.
+ */
+export class AuthorizationError extends ConvexLiteError<undefined> {
+  declare readonly code: "UNAUTHENTICATED" | "FORBIDDEN";
+
+  constructor(code: AuthorizationError["code"], message: string) {
+    super(code, message);
+    this.name = "AuthorizationError";
+  }
+}
+
+/**
+ * The roles of an identity: its `roles` claim, or its `role` claim.
+ */
+export function getRoles(identity: UserIdentity): string[] {
+  if (Array.isArray(identity.roles)) {
+    return identity.roles.filter((role) => typeof role === "string");
+  }
+  return typeof identity.role === "string" ? [identity.role] : [];
+}
+
+/**
+ * Rejects unauthenticated callers and adds their identity as `ctx.user`.
+ *
+ * @example
+ * const authedQuery = query.use(requireUser);
+ */
+export async function requireUser<Ctx extends { auth: Auth }>(
+  ctx: Ctx
+): Promise<Ctx & { user: UserIdentity }> {
+  const user = await ctx.auth.getUserIdentity();
+  if (!user) {
+    throw new AuthorizationError("UNAUTHENTICATED", "Not signed in.");
+  }
+  return { ...ctx, user };
+}
+
+/**
+ * Rejects callers that do not have the role, and adds their identity as
+ * `ctx.user` like `requireUser`.
+ *
+ * @example
+ * const adminQuery = query.use(requireRole("admin"));
+ */
+export function requireRole(role: string) {
+  return async <Ctx extends { auth: Auth }>(
+    ctx: Ctx
+  ): Promise<Ctx & { user: UserIdentity }> => {
+    const enrichedCtx = await requireUser(ctx);
+    if (!getRoles(enrichedCtx.user).includes(role)) {
+      throw new AuthorizationError(
+        "FORBIDDEN",
+        `This requires the "${role}" role.`
+      );
+    }
+    return enrichedCtx;
+  };
+}
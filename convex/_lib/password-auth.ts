@@ -0,0 +1,249 @@
+import { and, eq, lte } from "drizzle-orm";
+import type {
+  ActionContext,
+  HandlerContext,
+  WrappedApiFunction,
+} from "./server";
+import type { AuthVerifier } from "./auth";
+import { ConvexLiteError } from "./errors";
+import { AuthorizationError } from "./middleware";
+import {
+  generateSessionToken,
+  hashPassword,
+  hashSessionToken,
+  verifyPassword,
+} from "../../server/lib/auth";
+import { sessionsTable, usersTable } from "../../server/lib/system-tables";
+
+// Built-in username/password accounts. Users and sessions live in the
+// `_users` and `_sessions` system tables. The functions here are meant to be
+// called from the functions in `convex/auth.ts`, and `passwordAuthVerifier`
+// is the matching verifier for `convex/auth.config.ts`. Hashing a password
+// takes a while on purpose, so `signUp` and `signIn` run in actions and
+// leave only the reads and writes to internal queries and mutations.
+
+// How long a session is valid after it was created or last rotated.
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+// After this, clients swap their session for a fresh one.
+const SESSION_ROTATION_MS = 24 * 60 * 60 * 1000;
+
+export interface User {
+  _id: string;
+  username: string;
+}
+
+/**
+ * What a client gets when it signs in. The token is only ever handed out
+ * here; the server keeps a hash of it.
+ */
+export interface SessionToken {
+  token: string;
+  expiresAt: number;
+  // When the client should rotate the session with `refreshSession`.
+  refreshAt: number;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export interface NewUser {
+  username: string;
+  passwordHash: string;
+}
+
+export interface StoredUser {
+  _id: string;
+  passwordHash: string;
+}
+
+function createSession(ctx: HandlerContext, userId: string): SessionToken {
+  const token = generateSessionToken();
+  const now = Date.now();
+  const expiresAt = now + SESSION_DURATION_MS;
+  ctx.db
+    .insert(sessionsTable)
+    .values({
+      _id: crypto.randomUUID(),
+      token_hash: hashSessionToken(token),
+      user_id: userId,
+      created_at: now,
+      expires_at: expiresAt,
+    })
+    .run();
+  return { token, expiresAt, refreshAt: now + SESSION_ROTATION_MS };
+}
+
+// The session the caller is authenticated with, if any.
+async function getCurrentSessionId(ctx: HandlerContext) {
+  const identity = await ctx.auth.getUserIdentity();
+  return typeof identity?.sessionId === "string" ? identity.sessionId : null;
+}
+
+/**
+ * Signs a new user up. The password is hashed here, outside of any
+ * transaction, and the user is stored by `createUserRef`, an internal
+ * mutation that calls `createUser`.
+ */
+export async function signUp(
+  ctx: ActionContext,
+  { username, password }: Credentials,
+  createUserRef: WrappedApiFunction<NewUser, SessionToken>
+): Promise<SessionToken> {
+  const passwordHash = await hashPassword(password);
+  return ctx.runMutation(createUserRef, { username, passwordHash });
+}
+
+/**
+ * Signs a user in. The password is checked here, outside of any
+ * transaction. `refs` are the internal query and mutation that call
+ * `findUser` and `startSession`.
+ */
+export async function signIn(
+  ctx: ActionContext,
+  { username, password }: Credentials,
+  refs: {
+    findUser: WrappedApiFunction<{ username: string }, StoredUser | null>;
+    startSession: WrappedApiFunction<{ userId: string }, SessionToken>;
+  }
+): Promise<SessionToken> {
+  const user = await ctx.runQuery(refs.findUser, { username });
+  // The same error for both cases, so usernames cannot be probed.
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new ConvexLiteError(
+      "INVALID_CREDENTIALS",
+      "Invalid username or password."
+    );
+  }
+  return ctx.runMutation(refs.startSession, { userId: user._id });
+}
+
+export async function createUser(
+  ctx: HandlerContext,
+  { username, passwordHash }: NewUser
+): Promise<SessionToken> {
+  const existing = ctx.db
+    .select({ _id: usersTable._id })
+    .from(usersTable)
+    .where(eq(usersTable.username, username))
+    .get();
+  if (existing) {
+    throw new ConvexLiteError(
+      "USERNAME_TAKEN",
+      `The username "${username}" is already taken.`
+    );
+  }
+
+  const userId = crypto.randomUUID();
+  ctx.db
+    .insert(usersTable)
+    .values({
+      _id: userId,
+      username,
+      password_hash: passwordHash,
+      roles: [],
+      created_at: Date.now(),
+    })
+    .run();
+  return createSession(ctx, userId);
+}
+
+export async function findUser(
+  ctx: HandlerContext,
+  username: string
+): Promise<StoredUser | null> {
+  const user = ctx.db
+    .select({ _id: usersTable._id, passwordHash: usersTable.password_hash })
+    .from(usersTable)
+    .where(eq(usersTable.username, username))
+    .get();
+  return user ?? null;
+}
+
+export async function startSession(
+  ctx: HandlerContext,
+  userId: string
+): Promise<SessionToken> {
+  // Expired sessions of the user are cleaned up along the way.
+  ctx.db
+    .delete(sessionsTable)
+    .where(
+      and(
+        eq(sessionsTable.user_id, userId),
+        lte(sessionsTable.expires_at, Date.now())
+      )
+    )
+    .run();
+  return createSession(ctx, userId);
+}
+
+/**
+ * Ends the caller's session. Signing out without a session does nothing.
+ */
+export async function signOut(ctx: HandlerContext): Promise<void> {
+  const sessionId = await getCurrentSessionId(ctx);
+  if (!sessionId) return;
+  ctx.db.delete(sessionsTable).where(eq(sessionsTable._id, sessionId)).run();
+}
+
+/**
+ * Replaces the caller's session with a fresh one, so a leaked token stops
+ * working after a while, and pushes the expiry out.
+ */
+export async function refreshSession(
+  ctx: HandlerContext
+): Promise<SessionToken> {
+  const identity = await ctx.auth.getUserIdentity();
+  const sessionId = await getCurrentSessionId(ctx);
+  if (!identity || !sessionId) {
+    throw new AuthorizationError("UNAUTHENTICATED", "Not signed in.");
+  }
+  ctx.db.delete(sessionsTable).where(eq(sessionsTable._id, sessionId)).run();
+  return createSession(ctx, identity.subject);
+}
+
+export async function getCurrentUser(
+  ctx: HandlerContext
+): Promise<User | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  const user = await ctx.db
+    .select({ _id: usersTable._id, username: usersTable.username })
+    .from(usersTable)
+    .where(eq(usersTable._id, identity.subject))
+    .get();
+  return user ?? null;
+}
+
+/**
+ * Verifies session tokens handed out by `signIn` and `signUp`.
+ */
+export function passwordAuthVerifier(): AuthVerifier {
+  return async (token, { db }) => {
+    const session = db
+      .select({
+        _id: sessionsTable._id,
+        user_id: sessionsTable.user_id,
+        expires_at: sessionsTable.expires_at,
+        username: usersTable.username,
+        roles: usersTable.roles,
+      })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(usersTable._id, sessionsTable.user_id))
+      .where(eq(sessionsTable.token_hash, hashSessionToken(token)))
+      .get();
+    if (!session || session.expires_at <= Date.now()) return null;
+
+    return {
+      identity: {
+        subject: session.user_id,
+        tokenIdentifier: `password|${session.user_id}`,
+        name: session.username,
+        roles: session.roles,
+        sessionId: session._id,
+      },
+      expiresAt: session.expires_at,
+    };
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * How many calls are allowed over time.
+ *
+ * - `"token bucket"`: a bucket of `capacity` tokens (default `rate`) that
+ *   refills at `rate` tokens per `period`. Every call takes a token, so bursts
+ *   are allowed up to the capacity.
+ * - `"fixed window"`: at most `rate` calls in each `period`, counted from the
+ *   start of the window.
+ *
+ * @example
+ * { kind: "token bucket", rate: 10, period: 60_000, capacity: 3 }
+ */
+export interface RateLimitConfig {
+  kind: "token bucket" | "fixed window";
+  rate: number;
+  period: number; // In milliseconds
+  capacity?: number; // Token bucket only
+}
+
+/**
+ * The `rateLimit` of a function definition. `by` decides who shares a limit:
+ * each signed-in user (anonymous callers are limited per IP address), each
+ * connection, each IP address, all callers together, or all calls with the
+ * same value of an argument, e.g. `{ arg: "username" }`. Defaults to
+ * `"user"`. A function can have several limits, which all have to allow a
+ * call.
+ */
+export interface FunctionRateLimit extends RateLimitConfig {
+  by?: "user" | "connection" | "ip" | "global" | { arg: string };
+}
+
+/**
+ * The default export of `convex/rate-limits.config.ts`. `perConnection`
+ * limits every query, subscription, mutation and action a WebSocket
+ * connection sends, on top of the limits of the functions themselves. Calls
+ * over HTTP share this limit per IP address.
+ */
+export interface RateLimitsConfig {
+  perConnection?: RateLimitConfig;
+}
+
+/**
+ * The `data` of a `RATE_LIMITED` error.
+ */
+export interface RateLimitedErrorData {
+  retryAfter: number; // Milliseconds until the call would be allowed
+}
@@ -1,6 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { z, type ZodObject } from "zod/v4";
+import { z, type ZodObject, type ZodType } from "zod/v4";
+import { and, asc, desc, sql, type AnyColumn, type SQL } from "drizzle-orm";
 import type { HandlerContext as BaseHandlerContext } from "../../server/server";
+import { parseValue, stringifyValue } from "../../common/values";
+import type { Auth } from "./auth";
+import { ConvexLiteError } from "./errors";
+import type { FunctionRateLimit } from "./rate-limit";
+import type { StorageActionWriter, StorageWriter } from "./storage";
 
 // --- Core Type Definitions ---
 
@@ -17,75 +23,392 @@ export type QueryReference<Args, Ret> = WrappedApiFunction<Args, Ret> & {
  * This is what will be stored in memory and what our hooks will receive.
  */
 export interface WrappedApiFunction<Args, Ret> {
-  _type: "query" | "mutation";
+  _type: "query" | "mutation" | "action";
+  _internal?: true;
   args?: ZodObject<any>;
-  handler: (ctx: HandlerContext, args: Args) => Promise<Ret>;
+  returns?: ZodType;
+  // Limits how often clients can call the function. Calls from the server,
+  // e.g. `ctx.runMutation` or the scheduler, are not limited.
+  rateLimit?: FunctionRateLimit | FunctionRateLimit[];
+  handler: (ctx: HandlerContext | ActionContext, args: Args) => Promise<Ret>;
 }
 
+/**
+ * A function that is registered on the server but cannot be called by
+ * clients. It is reachable through `ctx.runQuery`/`ctx.runMutation`,
+ * the scheduler and crons, and is listed under `internal` in the generated API.
+ */
+export type InternalReference<F extends WrappedApiFunction<any, any>> = F & {
+  _internal: true;
+};
+
+/**
+ * The trailing arguments for calling a function: none if it takes no args.
+ */
+export type FunctionArgs<Args> = Args extends void ? [] : [Args];
+
 // --- Handler Context with Scheduler ---
 
+/**
+ * Narrows an invalidation down to some of a query's subscriptions. Either
+ * some of the arguments, which the subscriptions must have the same values
+ * for, or a predicate that is called with the arguments of every live
+ * subscription.
+ */
+export type InvalidationFilter<Args> =
+  Partial<Args> | ((args: Args) => boolean);
+
 /**
  * The full HandlerContext now includes a scheduler for invalidating queries.
  * This will be passed to every query and mutation handler.
  */
 export type HandlerContext = BaseHandlerContext & {
+  auth: Auth;
+  /**
+   * File storage. Queries can only read: `generateUploadUrl` and `delete`
+   * are not available there.
+   */
+  storage: StorageWriter;
   scheduler: {
-    invalidate: (queryRef: QueryReference<any, any>) => Promise<void>;
+    /**
+     * Re-runs the query for its live subscriptions. Without a `filter`, every
+     * subscription is refreshed regardless of its arguments. Not available
+     * in queries.
+     */
+    invalidate: <Args>(
+      queryRef: QueryReference<Args, any>,
+      filter?: InvalidationFilter<Args>
+    ) => Promise<void>;
+    /**
+     * Runs a mutation or action after `delayMs` milliseconds. Jobs are stored
+     * in the database, survive server restarts and are retried on failure.
+     * Inside a mutation, the job is only scheduled if the mutation commits.
+     * Not available in queries.
+     * @returns The id of the scheduled job, which can be passed to `cancel`.
+     */
+    runAfter: <Args>(
+      delayMs: number,
+      functionRef: WrappedApiFunction<Args, any>,
+      ...args: FunctionArgs<Args>
+    ) => Promise<string>;
+    /**
+     * Like `runAfter`, but runs the function at the given point in time.
+     */
+    runAt: <Args>(
+      timestamp: number | Date,
+      functionRef: WrappedApiFunction<Args, any>,
+      ...args: FunctionArgs<Args>
+    ) => Promise<string>;
+    /**
+     * Cancels a scheduled job that has not started yet.
+     */
+    cancel: (scheduledFunctionId: string) => Promise<void>;
   };
 };
 
+/**
+ * The context passed to action handlers. Actions have no direct `db` access;
+ * they read and write data through queries and mutations, each of which runs
+ * on its own (and, for mutations, in its own transaction). Those run with
+ * the same identity as the action.
+ */
+export type ActionContext = {
+  runQuery: <Args, Ret>(
+    queryRef: WrappedApiFunction<Args, Ret>,
+    ...args: FunctionArgs<Args>
+  ) => Promise<Ret>;
+  runMutation: <Args, Ret>(
+    mutationRef: WrappedApiFunction<Args, Ret>,
+    ...args: FunctionArgs<Args>
+  ) => Promise<Ret>;
+  auth: Auth;
+  scheduler: HandlerContext["scheduler"];
+  storage: StorageActionWriter;
+};
+
 // --- Handler Definition Interfaces for Overloads ---
 
 /**
  * The shape of a definition for a handler that takes NO arguments.
  */
-interface HandlerDefinitionWithoutArgs<Ret> {
+interface HandlerDefinitionWithoutArgs<Ctx, Ret> {
   args?: undefined;
-  handler: (ctx: HandlerContext) => Promise<Ret>;
+  returns?: undefined;
+  rateLimit?: FunctionRateLimit | FunctionRateLimit[];
+  handler: (ctx: Ctx) => Promise<Ret>;
 }
 
 /**
  * The shape of a definition for a handler that takes Zod-defined arguments.
  * The `Args` type will be automatically inferred from the provided Zod schema.
  */
-interface HandlerDefinitionWithArgs<Schema extends ZodObject<any>, Ret> {
+interface HandlerDefinitionWithArgs<Ctx, Schema extends ZodObject<any>, Ret> {
   args: Schema;
-  handler: (ctx: HandlerContext, args: z.infer<Schema>) => Promise<Ret>;
+  returns?: undefined;
+  rateLimit?: FunctionRateLimit | FunctionRateLimit[];
+  handler: (ctx: Ctx, args: z.infer<Schema>) => Promise<Ret>;
+}
+
+/**
+ * A definition with a `returns` schema. The server validates the handler's
+ * return value against it and only sends what the schema describes, so the
+ * return type is the schema's output type. Extra fields are stripped; in
+ * development they fail the call instead, so accidental leaks surface early.
+ */
+interface ValidatedHandlerDefinitionWithoutArgs<Ctx, Returns extends ZodType> {
+  args?: undefined;
+  returns: Returns;
+  rateLimit?: FunctionRateLimit | FunctionRateLimit[];
+  handler: (ctx: Ctx) => Promise<z.input<Returns>>;
+}
+
+interface ValidatedHandlerDefinitionWithArgs<
+  Ctx,
+  Schema extends ZodObject<any>,
+  Returns extends ZodType,
+> {
+  args: Schema;
+  returns: Returns;
+  rateLimit?: FunctionRateLimit | FunctionRateLimit[];
+  handler: (ctx: Ctx, args: z.infer<Schema>) => Promise<z.input<Returns>>;
+}
+
+// --- Middleware ---
+
+/**
+ * Runs before a handler. It can reject the call by throwing, or pass on an
+ * enriched context, e.g. `{ ...ctx, user }`.
+ */
+export type Middleware<In, Out> = (ctx: In) => Promise<Out>;
+
+type FunctionKind =
+  | "query"
+  | "mutation"
+  | "action"
+  | "internalQuery"
+  | "internalMutation"
+  | "internalAction";
+
+/**
+ * What a builder of the given kind produces for a handler.
+ */
+type BuiltFunction<Kind extends FunctionKind, Args, Ret> = Kind extends "query"
+  ? QueryReference<Args, Ret>
+  : Kind extends "internalQuery"
+    ? InternalReference<QueryReference<Args, Ret>>
+    : Kind extends "internalMutation" | "internalAction"
+      ? InternalReference<WrappedApiFunction<Args, Ret>>
+      : WrappedApiFunction<Args, Ret>;
+
+/**
+ * `query`, `mutation`, `action` and their internal variants. Call it with a
+ * definition to create a function, or chain `.use(middleware)` to get a
+ * builder whose handlers run after the middleware, with the context it
+ * returns. TypeScript will choose the correct overload based on whether you
+ * provide `args` and `returns` properties with Zod schemas.
+ */
+export interface FunctionBuilder<Kind extends FunctionKind, Ctx> {
+  <Ret>(
+    definition: HandlerDefinitionWithoutArgs<Ctx, Ret>
+  ): BuiltFunction<Kind, void, Ret>;
+  <Schema extends ZodObject<any>, Ret>(
+    definition: HandlerDefinitionWithArgs<Ctx, Schema, Ret>
+  ): BuiltFunction<Kind, z.infer<Schema>, Ret>;
+  <Returns extends ZodType>(
+    definition: ValidatedHandlerDefinitionWithoutArgs<Ctx, Returns>
+  ): BuiltFunction<Kind, void, z.output<Returns>>;
+  <Schema extends ZodObject<any>, Returns extends ZodType>(
+    definition: ValidatedHandlerDefinitionWithArgs<Ctx, Schema, Returns>
+  ): BuiltFunction<Kind, z.infer<Schema>, z.output<Returns>>;
+  use: <Out>(middleware: Middleware<Ctx, Out>) => FunctionBuilder<Kind, Out>;
+}
+
+function createFunctionBuilder(
+  wrap: (definition: any) => any,
+  middlewares: Middleware<any, any>[] = []
+): any {
+  const builder = (definition: any) => {
+    if (middlewares.length === 0) return wrap(definition);
+    return wrap({
+      ...definition,
+      handler: async (ctx: any, args: any) => {
+        let enrichedCtx = ctx;
+        for (const middleware of middlewares) {
+          enrichedCtx = await middleware(enrichedCtx);
+        }
+        return definition.handler(enrichedCtx, args);
+      },
+    });
+  };
+  builder.use = (middleware: Middleware<any, any>) =>
+    createFunctionBuilder(wrap, [...middlewares, middleware]);
+  return builder;
 }
 
-// --- Public Helper Functions with Overloads ---
+// --- Public Helper Functions ---
 
 /**
  * Wraps a query definition, branding it with `_isQuery` for the invalidation system.
- * TypeScript will choose the correct overload based on whether you provide an `args`
- * property with a Zod schema.
- */
-export function query<Ret>(
-  definition: HandlerDefinitionWithoutArgs<Ret>
-): QueryReference<void, Ret>;
-export function query<Schema extends ZodObject<any>, Ret>(
-  definition: HandlerDefinitionWithArgs<Schema, Ret>
-): QueryReference<z.infer<Schema>, Ret>;
-export function query(definition: any): QueryReference<any, any> {
-  return {
+ */
+export const query: FunctionBuilder<"query", HandlerContext> =
+  createFunctionBuilder((definition) => ({
     _type: "query",
     _isQuery: true, // The brand that makes it a `QueryReference`
     ...definition,
-  } as any;
-}
+  }));
 
 /**
  * Wraps a mutation definition. It does not get the query brand.
  */
-export function mutation<Ret>(
-  definition: HandlerDefinitionWithoutArgs<Ret>
-): WrappedApiFunction<void, Ret>;
-export function mutation<Schema extends ZodObject<any>, Ret>(
-  definition: HandlerDefinitionWithArgs<Schema, Ret>
-): WrappedApiFunction<z.infer<Schema>, Ret>;
-export function mutation(definition: any): WrappedApiFunction<any, any> {
-  return {
+export const mutation: FunctionBuilder<"mutation", HandlerContext> =
+  createFunctionBuilder((definition) => ({
     _type: "mutation",
     ...definition,
+  }));
+
+/**
+ * Wraps an action definition. Actions are the place for side effects such as
+ * calling other services, spawning processes or reading files. They are not
+ * run in a transaction and can be slow without holding up other handlers.
+ */
+export const action: FunctionBuilder<"action", ActionContext> =
+  createFunctionBuilder((definition) => ({
+    _type: "action",
+    ...definition,
+  }));
+
+// --- Internal (server-only) Variants ---
+
+export const internalQuery: FunctionBuilder<"internalQuery", HandlerContext> =
+  createFunctionBuilder((definition) => ({
+    ...query(definition),
+    _internal: true,
+  }));
+
+export const internalMutation: FunctionBuilder<
+  "internalMutation",
+  HandlerContext
+> = createFunctionBuilder((definition) => ({
+  ...mutation(definition),
+  _internal: true,
+}));
+
+export const internalAction: FunctionBuilder<"internalAction", ActionContext> =
+  createFunctionBuilder((definition) => ({
+    ...action(definition),
+    _internal: true,
+  }));
+
+// --- Pagination ---
+
+/**
+ * The `paginationOpts` argument of a paginated query. A page starts after
+ * `cursor` (`null` for the first page) and holds up to `numItems` items, or,
+ * with `endCursor`, every item up to and including that cursor. Pinning a
+ * loaded page to its `endCursor` keeps it from shifting when rows before it
+ * are inserted or deleted.
+ */
+export const paginationOptsValidator = z.object({
+  numItems: z.number().int().positive(),
+  cursor: z.string().nullable(),
+  endCursor: z.string().optional(),
+});
+
+export type PaginationOptions = z.infer<typeof paginationOptsValidator>;
+
+export interface PaginationResult<T> {
+  page: T[];
+  isDone: boolean; // No items after this page. Always false for pages with an `endCursor`.
+  continueCursor: string | null; // Where the next page starts; `null` only for an empty first page
+}
+
+/**
+ * The part of the query that selects a page, for `paginate`'s `fetchPage`.
+ * `limit` is -1, which SQLite treats as no limit, for pages that end at an
+ * `endCursor`.
+ */
+export interface PageRange {
+  where: SQL | undefined;
+  orderBy: SQL[];
+  limit: number;
+}
+
+function encodeCursor(
+  row: Record<string, unknown>,
+  key: Record<string, AnyColumn>
+): string {
+  const values = Object.entries(key).map(([property, column]) =>
+    column.mapToDriverValue(row[property])
+  );
+  return Buffer.from(stringifyValue(values)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, keyLength: number): unknown[] {
+  try {
+    const values = parseValue(Buffer.from(cursor, "base64url").toString());
+    if (Array.isArray(values) && values.length === keyLength) return values;
+  } catch {
+    // Reported below.
+  }
+  throw new ConvexLiteError("BAD_REQUEST", "Invalid pagination cursor.");
+}
+
+/**
+ * Fetches a page of rows in the order of `key`: columns that together are
+ * unique, such as `{ _createdAt: table._createdAt, _id: table._id }`. Its
+ * property names say where each column's value is found in the fetched rows.
+ * `fetchPage` applies the range to a Drizzle query; it works with both the
+ * select builder and `db.query`.
+ *
+ * @example
+ * export const listTasks = query({
+ *   args: z.object({ paginationOpts: paginationOptsValidator }),
+ *   handler: async ({ db }, { paginationOpts }) =>
+ *     paginate(paginationOpts, { _id: taskTable._id }, (range) =>
+ *       db.query.tasks.findMany(range)
+ *     ),
+ * });
+ */
+export async function paginate<Row extends Record<string, unknown>>(
+  paginationOpts: PaginationOptions,
+  key: Record<string, AnyColumn>,
+  fetchPage: (range: PageRange) => Promise<Row[]>,
+  order: "asc" | "desc" = "asc"
+): Promise<PaginationResult<Row>> {
+  const { numItems, cursor, endCursor } = paginationOpts;
+  const keyColumns = Object.values(key);
+  const compareToCursor = (operator: string, cursorValue: string) =>
+    sql`(${sql.join(keyColumns, sql`, `)}) ${sql.raw(operator)} (${sql.join(
+      decodeCursor(cursorValue, keyColumns.length).map(
+        (value) => sql`${value}`
+      ),
+      sql`, `
+    )})`;
+
+  const rows = await fetchPage({
+    where: and(
+      cursor === null
+        ? undefined
+        : compareToCursor(order === "asc" ? ">" : "<", cursor),
+      endCursor === undefined
+        ? undefined
+        : compareToCursor(order === "asc" ? "<=" : ">=", endCursor)
+    ),
+    orderBy: keyColumns.map((column) =>
+      order === "asc" ? asc(column) : desc(column)
+    ),
+    // One more than asked for tells whether there is a next page.
+    limit: endCursor === undefined ? numItems + 1 : -1,
+  });
+
+  if (endCursor !== undefined) {
+    return { page: rows, isDone: false, continueCursor: endCursor };
+  }
+  const page = rows.slice(0, numItems);
+  const lastRow = page[page.length - 1];
+  return {
+    page,
+    isDone: rows.length <= numItems,
+    continueCursor: lastRow ? encodeCursor(lastRow, key) : cursor,
   };
 }
@@ -0,0 +1,132 @@
+import fs from "fs";
+import fsPromises from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// --- File Metadata ---
+
+/**
+ * The id of a stored file. Store it in your tables to refer to the file.
+ */
+export type StorageId = string;
+
+export interface FileMetadata {
+  storageId: StorageId;
+  sha256: string; // Hex-encoded hash of the contents
+  size: number; // In bytes
+  contentType: string | null;
+  createdAt: number;
+  // Given when the upload URL was generated, or `null`.
+  owner: string | null;
+}
+
+export interface ListFilesOptions {
+  // Only the files of this owner. `null` matches the files without one.
+  owner?: string | null;
+  // Only the files stored before this timestamp.
+  createdBefore?: number;
+  limit?: number;
+}
+
+export interface StoreFileOptions {
+  /**
+   * Marks the file as belonging to a part of the app, e.g. `"attachments"`,
+   * so it can `list` its own files and clean up the ones it never used.
+   */
+  owner?: string;
+}
+
+// --- ctx.storage ---
+
+/**
+ * `ctx.storage` in queries.
+ */
+export interface StorageReader {
+  /**
+   * The URL the file can be downloaded from, or `null` if there is no such
+   * file. The URL is relative to the server, e.g. `/api/storage/<id>`.
+   * Anyone who has it can download the file.
+   */
+  getUrl: (storageId: StorageId) => Promise<string | null>;
+  getMetadata: (storageId: StorageId) => Promise<FileMetadata | null>;
+  /**
+   * The metadata of the stored files, oldest first.
+   */
+  list: (options?: ListFilesOptions) => Promise<FileMetadata[]>;
+}
+
+/**
+ * `ctx.storage` in mutations.
+ */
+export interface StorageWriter extends StorageReader {
+  /**
+   * A short-lived URL a client can upload a file to: `POST` the contents as
+   * the request body, with a `Content-Type` header. The response is
+   * `{ storageId }`. URLs are valid for an hour and until the server restarts.
+   */
+  generateUploadUrl: (options?: StoreFileOptions) => Promise<string>;
+  /**
+   * Deletes a file. In a mutation, the file is only removed once the
+   * mutation commits.
+   */
+  delete: (storageId: StorageId) => Promise<void>;
+}
+
+/**
+ * `ctx.storage` in actions, which can also read and write file contents.
+ */
+export interface StorageActionWriter extends StorageWriter {
+  get: (storageId: StorageId) => Promise<Blob | null>;
+  store: (blob: Blob, options?: StoreFileOptions) => Promise<StorageId>;
+}
+
+// --- Backends ---
+
+/**
+ * Where file contents live. The metadata is always kept in the `_storage`
+ * system table; a backend only stores bytes under the given id. The backend
+ * is the default export of `convex/storage.config.ts`, and defaults to
+ * `localDiskStorage()`.
+ */
+export interface StorageBackend {
+  write: (storageId: StorageId, contents: Readable) => Promise<void>;
+  // `null` if there is nothing stored under the id.
+  read: (storageId: StorageId) => Promise<Readable | null>;
+  delete: (storageId: StorageId) => Promise<void>;
+}
+
+/**
+ * Stores files in a directory on the server's disk, `storage/` by default.
+ */
+export function localDiskStorage(
+  options: { directory?: string } = {}
+): StorageBackend {
+  const directory = path.resolve(options.directory ?? "storage");
+  const filePath = (storageId: StorageId) => {
+    // Ids are generated by the server, but never let one escape the directory.
+    if (!/^[\w-]+$/.test(storageId)) {
+      throw new Error(`Invalid storage id: ${storageId}`);
+    }
+    return path.join(directory, storageId);
+  };
+
+  return {
+    write: async (storageId, contents) => {
+      await fsPromises.mkdir(directory, { recursive: true });
+      await pipeline(contents, fs.createWriteStream(filePath(storageId)));
+    },
+    read: async (storageId) => {
+      try {
+        const handle = await fsPromises.open(filePath(storageId));
+        return handle.createReadStream();
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    delete: async (storageId) => {
+      await fsPromises.rm(filePath(storageId), { force: true });
+    },
+  };
+}
@@ -19,42 +19,64 @@ export const taskTable = sqliteTable("tasks", {
   description: text("description").notNull(),
 });
 
+export const attachmentsTable = sqliteTable("attachments", {
+  _id: text("_id").primaryKey(),
+  _createdAt: integer("_createdAt").notNull(),
+  _updatedAt: integer("_updatedAt").notNull(),
+  taskId: text("taskId").notNull(),
+  storageId: text("storageId").notNull(), // The file in `ctx.storage`
+  name: text("name").notNull(),
+});
+
 // THE NEW PART: Define the relationship
 export const columnRelations = relations(columnsTable, ({ many }) => ({
   // A column has `many` tasks. The `tasks` property will be populated.
   tasks: many(taskTable),
 }));
 
-export const taskRelations = relations(taskTable, ({ one }) => ({
+export const taskRelations = relations(taskTable, ({ one, many }) => ({
   // A task belongs to `one` column. This defines the foreign key link.
   column: one(columnsTable, {
     fields: [taskTable.columnId],
     references: [columnsTable._id],
   }),
+  attachments: many(attachmentsTable),
+}));
+
+export const attachmentRelations = relations(attachmentsTable, ({ one }) => ({
+  task: one(taskTable, {
+    fields: [attachmentsTable.taskId],
+    references: [taskTable._id],
+  }),
 }));
 
 export const tables = {
   columns: columnsTable,
   tasks: taskTable,
+  attachments: attachmentsTable,
 };
 
 // --- Export Drizzle tables (Still correct) ---
 export const schema = {
   columns: columnsTable,
   tasks: taskTable,
+  attachments: attachmentsTable,
   columnRelations,
   taskRelations,
+  attachmentRelations,
 };
 export type AppSchema = typeof schema;
 
 // --- Zod Select Schema Generation (Still correct) ---
 export const selectColumnsSchema = createSelectSchema(columnsTable);
 export const selectTasksSchema = createSelectSchema(taskTable);
+export const selectAttachmentsSchema = createSelectSchema(attachmentsTable);
 
 // Construct a Zod schema for the entire app structure by composing the individual schemas.
 export const zodAppSchema = z.object({
   columns: selectColumnsSchema,
   tasks: selectTasksSchema,
+  attachments: selectAttachmentsSchema,
 });
 
 /**
@@ -0,0 +1,82 @@
+import { internalMutation, mutation } from "convex/_lib/server";
+import { ConvexLiteError } from "convex/_lib/errors";
+import { requireUser } from "convex/_lib/middleware";
+import { z } from "zod/v4";
+import { attachmentsTable, taskTable } from "./_schema";
+import { eq } from "drizzle-orm";
+
+// Files are uploaded in three steps: get an upload URL, POST the file to it,
+// then attach the returned storage id to the task.
+
+// Tells the uploads of attachments apart from other stored files.
+const FILE_OWNER = "attachments";
+
+// Files that were uploaded but never attached are deleted after this long.
+const ORPHANED_FILE_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+const authedMutation = mutation.use(requireUser);
+
+export const generateUploadUrl = authedMutation({
+  handler: async (ctx) => ctx.storage.generateUploadUrl({ owner: FILE_OWNER }),
+});
+
+export const addAttachment = authedMutation({
+  args: z.object({
+    taskId: z.string(),
+    storageId: z.string(),
+    name: z.string(),
+  }),
+  handler: async (ctx, args) => {
+    const task = await ctx.db
+      .select({ _id: taskTable._id })
+      .from(taskTable)
+      .where(eq(taskTable._id, args.taskId))
+      .get();
+    if (!task) {
+      throw new ConvexLiteError("NOT_FOUND", "The task does not exist.");
+    }
+    const file = await ctx.storage.getMetadata(args.storageId);
+    if (file?.owner !== FILE_OWNER) {
+      throw new ConvexLiteError("NOT_FOUND", "The file does not exist.");
+    }
+    await ctx.db.insert(attachmentsTable).values({
+      _id: crypto.randomUUID(),
+      _createdAt: Date.now(),
+      _updatedAt: Date.now(),
+      taskId: args.taskId,
+      storageId: args.storageId,
+      name: args.name,
+    });
+  },
+});
+
+export const deleteAttachment = authedMutation({
+  args: z.object({
+    id: z.string(),
+  }),
+  handler: async (ctx, args) => {
+    const [attachment] = await ctx.db
+      .delete(attachmentsTable)
+      .where(eq(attachmentsTable._id, args.id))
+      .returning();
+    if (attachment) await ctx.storage.delete(attachment.storageId);
+  },
+});
+
+// Run by `convex/crons.ts`. Only touches files uploaded for attachments.
+export const deleteOrphanedFiles = internalMutation({
+  handler: async (ctx) => {
+    const files = await ctx.storage.list({
+      owner: FILE_OWNER,
+      createdBefore: Date.now() - ORPHANED_FILE_LIFETIME_MS,
+    });
+    for (const { storageId } of files) {
+      const attachment = await ctx.db
+        .select({ _id: attachmentsTable._id })
+        .from(attachmentsTable)
+        .where(eq(attachmentsTable.storageId, storageId))
+        .get();
+      if (!attachment) await ctx.storage.delete(storageId);
+    }
+  },
+});
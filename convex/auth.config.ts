@@ -0,0 +1,4 @@
+import { passwordAuthVerifier } from "./_lib/password-auth";
+
+// Accepts the session tokens handed out by `auth:signIn` and `auth:signUp`.
+export default passwordAuthVerifier();
@@ -0,0 +1,63 @@
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "convex/_lib/server";
+import { z } from "zod/v4";
+import * as passwordAuth from "./_lib/password-auth";
+
+// Signing up and in are limited per IP address, and signing in also per
+// username, so passwords cannot be guessed at speed.
+export const signUp = action({
+  args: z.object({
+    username: z.string().trim().min(3).max(64),
+    password: z.string().min(8).max(256),
+  }),
+  rateLimit: { kind: "token bucket", rate: 10, period: 60 * 60_000, by: "ip" },
+  handler: (ctx, args) => passwordAuth.signUp(ctx, args, createUser),
+});
+
+export const signIn = action({
+  args: z.object({ username: z.string(), password: z.string() }),
+  rateLimit: [
+    { kind: "token bucket", rate: 20, period: 60_000, capacity: 10, by: "ip" },
+    {
+      kind: "token bucket",
+      rate: 5,
+      period: 60_000,
+      by: { arg: "username" },
+    },
+  ],
+  handler: (ctx, args) =>
+    passwordAuth.signIn(ctx, args, { findUser, startSession }),
+});
+
+export const createUser = internalMutation({
+  args: z.object({ username: z.string(), passwordHash: z.string() }),
+  handler: (ctx, args) => passwordAuth.createUser(ctx, args),
+});
+
+export const findUser = internalQuery({
+  args: z.object({ username: z.string() }),
+  handler: (ctx, { username }) => passwordAuth.findUser(ctx, username),
+});
+
+export const startSession = internalMutation({
+  args: z.object({ userId: z.string() }),
+  handler: (ctx, { userId }) => passwordAuth.startSession(ctx, userId),
+});
+
+export const signOut = mutation({
+  handler: (ctx) => passwordAuth.signOut(ctx),
+});
+
+export const refreshSession = mutation({
+  handler: (ctx) => passwordAuth.refreshSession(ctx),
+});
+
+export const currentUser = query({
+  returns: z.object({ _id: z.string(), username: z.string() }).nullable(),
+  handler: (ctx) => passwordAuth.getCurrentUser(ctx),
+});
@@ -2,7 +2,6 @@ import { mutation, query } from "convex/_lib/server";
 import { z } from "zod/v4";
 import { columnsTable } from "./_schema";
 import { eq } from "drizzle-orm";
-import { getAdminTableData } from "./tables";
 
 export const createColumn = mutation({
   args: z.object({
@@ -15,8 +14,6 @@ export const createColumn = mutation({
       _updatedAt: Date.now(),
       name: args.name,
     });
-    ctx.scheduler.invalidate(getAllColumnsWithTasks);
-    ctx.scheduler.invalidate(getAdminTableData);
     return column;
   },
 });
@@ -27,8 +24,6 @@ export const deleteColumn = mutation({
   }),
   handler: async (ctx, args) => {
     await ctx.db.delete(columnsTable).where(eq(columnsTable._id, args.id));
-    ctx.scheduler.invalidate(getAllColumnsWithTasks);
-    ctx.scheduler.invalidate(getAdminTableData);
   },
 });
 
@@ -40,10 +35,26 @@ export const getAllColumnsWithTasks = query({
       with: {
         // "with" tells Drizzle to include the related tasks for each column.
         // The name "tasks" comes from the `columnRelations` you defined in the schema.
-        tasks: true,
+        tasks: { with: { attachments: true } },
       },
     });
 
-    return columnsWithTasks;
+    // Attachments come with the URL their file can be downloaded from.
+    return Promise.all(
+      columnsWithTasks.map(async (column) => ({
+        ...column,
+        tasks: await Promise.all(
+          column.tasks.map(async (task) => ({
+            ...task,
+            attachments: await Promise.all(
+              task.attachments.map(async (attachment) => ({
+                ...attachment,
+                url: await ctx.storage.getUrl(attachment.storageId),
+              }))
+            ),
+          }))
+        ),
+      }))
+    );
   },
 });
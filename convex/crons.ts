@@ -0,0 +1,8 @@
+import { cronJobs } from "./_lib/crons";
+import { deleteOrphanedFiles } from "./attachments";
+
+const crons = cronJobs();
+
+crons.hourly("delete orphaned files", { minuteUTC: 0 }, deleteOrphanedFiles);
+
+export default crons;
@@ -1,10 +1,18 @@
-import { query } from "convex/_lib/server";
+import { paginate, paginationOptsValidator, query } from "convex/_lib/server";
+import { requireRole } from "convex/_lib/middleware";
+import { listCronJobs } from "convex/_lib/crons";
 import { tables } from "convex/_schema";
 import z4 from "zod/v4";
 
-export const getAdminTableData = query({
-  args: z4.object({ tableNameString: z4.string() }),
-  handler: async ({ db }, { tableNameString }) => {
+// Everything in this module is for the admin UI only.
+const adminQuery = query.use(requireRole("admin"));
+
+export const getAdminTableData = adminQuery({
+  args: z4.object({
+    tableNameString: z4.string(),
+    paginationOpts: paginationOptsValidator,
+  }),
+  handler: async ({ db }, { tableNameString, paginationOpts }) => {
     if (!tableNameString || typeof tableNameString !== "string") {
       throw new Error(
         "tableNameString parameter is required and must be a string."
@@ -18,6 +26,20 @@ export const getAdminTableData = query({
       throw new Error(`Table "${tableNameString}" not found in schema.`);
     }
 
-    return await db.select().from(table);
+    return await paginate(
+      paginationOpts,
+      { _createdAt: table._createdAt, _id: table._id },
+      (range) =>
+        db
+          .select()
+          .from(table)
+          .where(range.where)
+          .orderBy(...range.orderBy)
+          .limit(range.limit)
+    );
   },
 });
+
+export const getCronJobs = adminQuery({
+  handler: async (ctx) => listCronJobs(ctx),
+});
@@ -1,9 +1,7 @@
 import { mutation } from "convex/_lib/server";
 import { z } from "zod/v4";
-import { taskTable } from "./_schema";
-import { getAllColumnsWithTasks } from "./columns";
+import { attachmentsTable, taskTable } from "./_schema";
 import { eq } from "drizzle-orm";
-import { getAdminTableData } from "./tables";
 
 export const createTask = mutation({
   args: z.object({
@@ -11,6 +9,8 @@ export const createTask = mutation({
     description: z.string(),
     columnId: z.string(),
   }),
+  // Bursts of up to 10 new tasks, then one every two seconds.
+  rateLimit: { kind: "token bucket", rate: 30, period: 60_000, capacity: 10 },
   handler: async (ctx, args) => {
     const task = await ctx.db.insert(taskTable).values({
       _id: crypto.randomUUID(),
@@ -20,8 +20,6 @@ export const createTask = mutation({
       title: args.title,
       description: args.description,
     });
-    ctx.scheduler.invalidate(getAllColumnsWithTasks);
-    ctx.scheduler.invalidate(getAdminTableData);
     return task;
   },
 });
@@ -32,8 +30,14 @@ export const deleteTask = mutation({
   }),
   handler: async (ctx, args) => {
     await ctx.db.delete(taskTable).where(eq(taskTable._id, args.id));
-    ctx.scheduler.invalidate(getAllColumnsWithTasks);
-    ctx.scheduler.invalidate(getAdminTableData);
+    // The task's files go with it.
+    const attachments = await ctx.db
+      .delete(attachmentsTable)
+      .where(eq(attachmentsTable.taskId, args.id))
+      .returning();
+    for (const { storageId } of attachments) {
+      await ctx.storage.delete(storageId);
+    }
   },
 });
 
@@ -50,9 +54,6 @@ export const moveTask = mutation({
         _updatedAt: Date.now(),
       })
       .where(eq(taskTable._id, args.id));
-
-    ctx.scheduler.invalidate(getAllColumnsWithTasks);
-    ctx.scheduler.invalidate(getAdminTableData);
   },
 });
 
@@ -71,8 +72,5 @@ export const updateTask = mutation({
         _updatedAt: Date.now(),
       })
       .where(eq(taskTable._id, args.id));
-
-    ctx.scheduler.invalidate(getAllColumnsWithTasks);
-    ctx.scheduler.invalidate(getAdminTableData);
   },
 });
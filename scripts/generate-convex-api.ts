@@ -1,6 +1,8 @@
 import fs from "fs/promises";
 import path from "path";
+import { pathToFileURL } from "url";
 import { getApiFiles, CONVEX_DIR } from "../server/utils/file-discovery.ts";
+import { computeApiHash } from "../server/utils/api-hash.ts";
 
 // --- Configuration ---
 const GENERATED_DIR = path.join(CONVEX_DIR, "_generated");
@@ -9,15 +11,29 @@ const OUTPUT_FILE_D_TS = path.join(GENERATED_DIR, "api.d.ts");
 
 // --- Helper Functions ---
 
+// Loads the module to see what it exports, the way the server does. Functions
+// built with `internalQuery` and friends, or with a builder derived from
+// them, carry `_internal` and go to the `internal` object instead of `api`.
 async function findApiExports(filePath) {
-  const content = await fs.readFile(filePath, "utf-8");
+  const module = await import(pathToFileURL(filePath).href);
   const functions = [];
-  const localRegex = /export\s+const\s+([A-Za-z_][A-Za-z0-9_]*)/g;
-  let match;
-  while ((match = localRegex.exec(content)) !== null) {
-    if (match[1]) functions.push(match[1] as never);
+  const internalFunctions = [];
+  for (const exportName in module) {
+    const handlerObject = module[exportName];
+    if (
+      handlerObject?._type !== "query" &&
+      handlerObject?._type !== "mutation" &&
+      handlerObject?._type !== "action"
+    ) {
+      continue;
+    }
+    if (handlerObject._internal) {
+      internalFunctions.push(exportName as never);
+    } else {
+      functions.push(exportName as never);
+    }
   }
-  return functions;
+  return { functions, internalFunctions };
 }
 
 function toCamelCase(str) {
@@ -31,19 +47,6 @@ function toCamelCase(str) {
 async function generateApi() {
   console.log("\n[Generator] Starting API generation...");
 
-  // THE FIX: Proactively delete the old generated files before starting.
-  // This ensures a clean state and prevents any file caching issues.
-  try {
-    await fs.unlink(OUTPUT_FILE_JS);
-    await fs.unlink(OUTPUT_FILE_D_TS);
-    console.log("[Generator] Cleared previous generated files.");
-  } catch (error) {
-    // It's okay if the files don't exist on the first run.
-    if (error.code !== "ENOENT") {
-      console.error("[Generator] Error clearing old files:", error);
-    }
-  }
-
   const modules = {};
 
   const allApiFiles: string[] = [];
@@ -65,9 +68,20 @@ async function generateApi() {
 
   // Process the collected files.
   for (const filePath of allApiFiles) {
-    const functions = await findApiExports(filePath);
+    let exports;
+    try {
+      exports = await findApiExports(filePath);
+    } catch (error) {
+      // Keep the previous files, which match the API the server still runs.
+      console.error(
+        `[Generator] Failed to load ${path.relative(process.cwd(), filePath)}, keeping the previous generated files:`,
+        error
+      );
+      return;
+    }
+    const { functions, internalFunctions } = exports;
 
-    if (functions.length > 0) {
+    if (functions.length > 0 || internalFunctions.length > 0) {
       const moduleKey = path
         .relative(CONVEX_DIR, filePath)
         .replace(/\.(ts|js)$/, "")
@@ -82,6 +96,7 @@ async function generateApi() {
 
       modules[camelCasedModuleKey] = {
         functions,
+        internalFunctions,
         identifierPrefix: `${moduleKey}:`,
         moduleAlias,
         importPath,
@@ -97,17 +112,45 @@ async function generateApi() {
 
   const sortedModuleNames = Object.keys(modules).sort();
 
+  const publicModuleNames = sortedModuleNames.filter(
+    (moduleName) => modules[moduleName].functions.length > 0
+  );
+  const internalModuleNames = sortedModuleNames.filter(
+    (moduleName) => modules[moduleName].internalFunctions.length > 0
+  );
+
   // --- Generate api.js content (for runtime) ---
-  let jsContent = `${fileHeader}\nexport const api = {\n`;
-  for (const moduleName of sortedModuleNames) {
-    jsContent += `  ${moduleName}: {\n`;
-    const { functions, identifierPrefix } = modules[moduleName];
-    functions.sort().forEach((fnName) => {
-      jsContent += `    ${fnName}: "${identifierPrefix}${fnName}",\n`;
-    });
-    jsContent += "  },\n";
-  }
-  jsContent += "};\n";
+  const generateJsObject = (exportName, moduleNames, functionsKey) => {
+    let content = `export const ${exportName} = {\n`;
+    for (const moduleName of moduleNames) {
+      content += `  ${moduleName}: {\n`;
+      const { identifierPrefix } = modules[moduleName];
+      modules[moduleName][functionsKey].sort().forEach((fnName) => {
+        content += `    ${fnName}: "${identifierPrefix}${fnName}",\n`;
+      });
+      content += "  },\n";
+    }
+    content += "};\n";
+    return content;
+  };
+  let jsContent = `${fileHeader}\n`;
+  jsContent += generateJsObject("api", publicModuleNames, "functions");
+  jsContent += "\n";
+  jsContent += generateJsObject(
+    "internal",
+    internalModuleNames,
+    "internalFunctions"
+  );
+  // Sent to the server on connect, so it can tell whether this build of the
+  // client matches the API it runs.
+  const apiHash = computeApiHash(
+    publicModuleNames.flatMap((moduleName) =>
+      modules[moduleName].functions.map(
+        (fnName) => `${modules[moduleName].identifierPrefix}${fnName}`
+      )
+    )
+  );
+  jsContent += `\nexport const apiHash = "${apiHash}";\n`;
 
   // --- Generate api.d.ts content (for types and "Go to Definition") ---
   let dtsContent = `${fileHeader}\n`;
@@ -115,13 +158,36 @@ async function generateApi() {
     const { moduleAlias, importPath } = modules[moduleName];
     dtsContent += `import type * as ${moduleAlias} from "${importPath}";\n`;
   }
-  dtsContent += `\n/**\n * A type helper to build the API from modules, preserving the original function definitions.\n */\ntype ApiFromModules<Modules extends Record<string, any>> = {\n  [ModuleName in keyof Modules]: Modules[ModuleName];\n};\n\n`;
+  dtsContent += `\n/**\n * A type helper to build the API from modules, preserving the original function definitions.\n * Internal functions are only exposed through \`internal\`.\n */\ntype ApiFromModules<Modules extends Record<string, any>> = {\n  [ModuleName in keyof Modules]: {\n    [Name in keyof Modules[ModuleName] as Modules[ModuleName][Name] extends { _internal: true } ? never : Name]: Modules[ModuleName][Name];\n  };\n};\n\ntype InternalApiFromModules<Modules extends Record<string, any>> = {\n  [ModuleName in keyof Modules]: {\n    [Name in keyof Modules[ModuleName] as Modules[ModuleName][Name] extends { _internal: true } ? Name : never]: Modules[ModuleName][Name];\n  };\n};\n\n`;
+  const generateModuleList = (moduleNames) =>
+    moduleNames
+      .map(
+        (moduleName) =>
+          `  ${moduleName}: typeof ${modules[moduleName].moduleAlias};\n`
+      )
+      .join("");
   dtsContent += `declare const fullApi: ApiFromModules<{\n`;
-  for (const moduleName of sortedModuleNames) {
-    dtsContent += `  ${moduleName}: typeof ${modules[moduleName].moduleAlias};\n`;
-  }
+  dtsContent += generateModuleList(publicModuleNames);
+  dtsContent += `}>;\n\n`;
+  dtsContent += `declare const fullInternalApi: InternalApiFromModules<{\n`;
+  dtsContent += generateModuleList(internalModuleNames);
   dtsContent += `}>;\n\n`;
   dtsContent += `export declare const api: typeof fullApi;\n`;
+  dtsContent += `export declare const internal: typeof fullInternalApi;\n`;
+  dtsContent += `export declare const apiHash: string;\n`;
+
+  // THE FIX: Proactively delete the old generated files before writing.
+  // This ensures a clean state and prevents any file caching issues.
+  try {
+    await fs.unlink(OUTPUT_FILE_JS);
+    await fs.unlink(OUTPUT_FILE_D_TS);
+    console.log("[Generator] Cleared previous generated files.");
+  } catch (error) {
+    // It's okay if the files don't exist on the first run.
+    if (error.code !== "ENOENT") {
+      console.error("[Generator] Error clearing old files:", error);
+    }
+  }
 
   await fs.mkdir(GENERATED_DIR, { recursive: true });
   await fs.writeFile(OUTPUT_FILE_JS, jsContent);
@@ -0,0 +1,137 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+
+export interface JwtVerificationOptions {
+  // The shared secret the tokens are signed with (HS256, HS384 or HS512).
+  secret: string;
+  // When set, the `iss` claim has to match.
+  issuer?: string;
+  // When set, the `aud` claim has to contain it.
+  audience?: string;
+  // Allowed clock skew when checking `exp` and `nbf`, in seconds.
+  clockToleranceSeconds?: number;
+}
+
+export type JwtClaims = {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+};
+
+const HMAC_ALGORITHMS: Record<string, string> = {
+  HS256: "sha256",
+  HS384: "sha384",
+  HS512: "sha512",
+};
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * Verifies the signature and time claims of a JWT signed with a shared
+ * secret and returns its claims. Throws if the token is not valid.
+ */
+export function verifyJwt(
+  token: string,
+  options: JwtVerificationOptions
+): JwtClaims {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new Error("Malformed token.");
+  }
+  const [encodedHeader, encodedPayload, signature] = segments;
+
+  let header: { alg?: string };
+  let claims: JwtClaims;
+  try {
+    header = decodeSegment(encodedHeader) as { alg?: string };
+    claims = decodeSegment(encodedPayload) as JwtClaims;
+  } catch {
+    throw new Error("Malformed token.");
+  }
+
+  const algorithm = header.alg && HMAC_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+  const expected = createHmac(algorithm, options.secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error("Invalid token signature.");
+  }
+
+  const now = Date.now() / 1000;
+  const tolerance = options.clockToleranceSeconds ?? 0;
+  if (claims.exp !== undefined && claims.exp + tolerance <= now) {
+    throw new Error("Token has expired.");
+  }
+  if (claims.nbf !== undefined && claims.nbf - tolerance > now) {
+    throw new Error("Token is not valid yet.");
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw new Error("Unexpected token issuer.");
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new Error("Unexpected token audience.");
+    }
+  }
+  if (typeof claims.sub !== "string") {
+    throw new Error("Token has no subject.");
+  }
+  return claims;
+}
+
+// --- Passwords & Session Tokens ---
+
+const SCRYPT_KEY_LENGTH = 64;
+
+function scryptAsync(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+}
+
+/**
+ * Hashes a password with scrypt and a random salt. The result holds
+ * everything `verifyPassword` needs.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt);
+  return `scrypt:${salt.toString("base64url")}:${key.toString("base64url")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  passwordHash: string
+): Promise<boolean> {
+  const [algorithm, salt, expected] = passwordHash.split(":");
+  if (algorithm !== "scrypt" || !salt || !expected) return false;
+  const key = await scryptAsync(password, Buffer.from(salt, "base64url"));
+  const expectedKey = Buffer.from(expected, "base64url");
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+}
+
+export function generateSessionToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Session tokens are random enough that a fast hash is sufficient.
+export function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
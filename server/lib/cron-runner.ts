@@ -0,0 +1,231 @@
+import { and, eq, notInArray } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { type schema as appSchemaDefinition } from "../../convex/_schema";
+import type { CronJob, CronSchedule } from "../../convex/_lib/crons";
+import { getNextCronTime, parseCronExpression } from "./cron-schedule";
+import { cronJobsTable, cronRunsTable } from "./system-tables";
+import type { TransactionManager } from "./transactions";
+
+function getNextRunTime(schedule: CronSchedule, after: number): number {
+  if (schedule.type === "interval") {
+    return after + schedule.ms;
+  }
+  return getNextCronTime(parseCronExpression(schedule.expression), after);
+}
+
+/**
+ * Runs the jobs declared in `convex/crons.ts`. Job state lives in the
+ * `_cron_jobs` system table and every run is logged in `_cron_runs`.
+ * A job never overlaps with itself: if it is still running when it is due
+ * again, that run is skipped and logged as such. Only one instance may run
+ * the jobs at a time, see `LeaderLease`.
+ */
+export class CronRunner {
+  private db: BetterSQLite3Database<typeof appSchemaDefinition>;
+  private transactions: TransactionManager;
+  private runFunction: (job: CronJob) => Promise<unknown>;
+
+  private jobs = new Map<string, CronJob>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private runs = new Set<Promise<void>>();
+
+  constructor(
+    db: BetterSQLite3Database<typeof appSchemaDefinition>,
+    transactions: TransactionManager,
+    runFunction: (job: CronJob) => Promise<unknown>
+  ) {
+    this.db = db;
+    this.transactions = transactions;
+    this.runFunction = runFunction;
+  }
+
+  /**
+   * Syncs the declared jobs into `_cron_jobs` and starts their timers.
+   * A job whose schedule changed starts over from now.
+   */
+  async start(jobs: Iterable<CronJob>) {
+    this.jobs = new Map([...jobs].map((job) => [job.name, job]));
+    const now = Date.now();
+
+    await this.transactions.runInTransaction(async () => {
+      const names = [...this.jobs.keys()];
+      this.db
+        .delete(cronJobsTable)
+        .where(notInArray(cronJobsTable.name, names))
+        .run();
+
+      // Runs that were in flight when the server stopped never finished.
+      this.db
+        .update(cronRunsTable)
+        .set({
+          state: "failed",
+          finished_at: now,
+          error: "The server stopped during the run.",
+        })
+        .where(eq(cronRunsTable.state, "running"))
+        .run();
+
+      for (const job of this.jobs.values()) {
+        const schedule = JSON.stringify(job.schedule);
+        const existing = this.db
+          .select()
+          .from(cronJobsTable)
+          .where(eq(cronJobsTable.name, job.name))
+          .get();
+        if (existing && existing.schedule === schedule) {
+          this.db
+            .update(cronJobsTable)
+            .set({ is_running: false })
+            .where(eq(cronJobsTable.name, job.name))
+            .run();
+        } else {
+          this.db
+            .insert(cronJobsTable)
+            .values({
+              name: job.name,
+              schedule,
+              next_run_at: getNextRunTime(job.schedule, now),
+              is_running: false,
+            })
+            .onConflictDoUpdate({
+              target: cronJobsTable.name,
+              set: {
+                schedule,
+                next_run_at: getNextRunTime(job.schedule, now),
+                is_running: false,
+              },
+            })
+            .run();
+        }
+      }
+    });
+
+    for (const job of this.jobs.values()) {
+      this.armTimer(job.name);
+      console.log(`Registered cron job: ${job.name}`);
+    }
+  }
+
+  /**
+   * Stops the timers. Resolves once the runs in progress have finished and
+   * been logged.
+   */
+  async stop() {
+    this.timers.forEach((timeoutId) => clearTimeout(timeoutId));
+    this.timers.clear();
+    await Promise.all(this.runs);
+  }
+
+  private armTimer(name: string) {
+    const row = this.db
+      .select({ next_run_at: cronJobsTable.next_run_at })
+      .from(cronJobsTable)
+      .where(eq(cronJobsTable.name, name))
+      .get();
+    if (!row) return;
+
+    // setTimeout cannot wait longer than ~24.8 days; wake up and re-check.
+    const delay = Math.min(
+      Math.max(row.next_run_at - Date.now(), 0),
+      2 ** 31 - 1
+    );
+    clearTimeout(this.timers.get(name));
+    this.timers.set(
+      name,
+      setTimeout(() => {
+        const run = this.tick(name)
+          .catch((error) =>
+            console.error(`[Crons] Failed to run ${name}:`, error)
+          )
+          .finally(() => {
+            this.runs.delete(run);
+            if (this.timers.has(name)) this.armTimer(name);
+          });
+        this.runs.add(run);
+      }, delay)
+    );
+  }
+
+  private async tick(name: string) {
+    const job = this.jobs.get(name);
+    if (!job) return;
+
+    // Claims the run and moves `next_run_at` forward in one transaction.
+    const runId = await this.transactions.runInTransaction(async () => {
+      const now = Date.now();
+      const row = this.db
+        .select()
+        .from(cronJobsTable)
+        .where(eq(cronJobsTable.name, name))
+        .get();
+      if (!row || row.next_run_at > now) return null;
+
+      const id = crypto.randomUUID();
+      const nextRunAt = getNextRunTime(job.schedule, now);
+      if (row.is_running) {
+        this.db
+          .insert(cronRunsTable)
+          .values({
+            _id: id,
+            name,
+            state: "skipped",
+            started_at: now,
+            finished_at: now,
+            error: "The previous run was still in progress.",
+          })
+          .run();
+        this.db
+          .update(cronJobsTable)
+          .set({ next_run_at: nextRunAt })
+          .where(eq(cronJobsTable.name, name))
+          .run();
+        console.warn(
+          `[Crons] Skipped ${name}: the previous run is still in progress.`
+        );
+        return null;
+      }
+
+      this.db
+        .insert(cronRunsTable)
+        .values({ _id: id, name, state: "running", started_at: now })
+        .run();
+      this.db
+        .update(cronJobsTable)
+        .set({ is_running: true, last_run_at: now, next_run_at: nextRunAt })
+        .where(
+          and(eq(cronJobsTable.name, name), eq(cronJobsTable.is_running, false))
+        )
+        .run();
+      return id;
+    });
+    if (!runId) return;
+
+    // The next run is armed right away, so a slow run can be detected as
+    // overlapping. Unless the runner was stopped in the meantime.
+    if (this.timers.has(name)) this.armTimer(name);
+
+    let state: "success" | "failed" = "success";
+    let error: string | null = null;
+    try {
+      await this.runFunction(job);
+      console.log(`[Crons] Ran ${name}`);
+    } catch (runError) {
+      state = "failed";
+      error = runError instanceof Error ? runError.message : String(runError);
+      console.error(`[Crons] ${name} failed: ${error}`);
+    }
+
+    await this.transactions.runExclusive(async () => {
+      this.db
+        .update(cronRunsTable)
+        .set({ state, error, finished_at: Date.now() })
+        .where(eq(cronRunsTable._id, runId))
+        .run();
+      this.db
+        .update(cronJobsTable)
+        .set({ is_running: false, last_state: state })
+        .where(eq(cronJobsTable.name, name))
+        .run();
+    });
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * A parsed five-field cron expression (minute, hour, day of month, month,
+ * day of week). All times are interpreted in UTC.
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, a day
+  // matches if it matches either of them.
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: [min: number, max: number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week, where both 0 and 7 are Sunday
+];
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    let start = min;
+    let end = max;
+    if (rangePart !== "*") {
+      const [from, to] = rangePart.split("-");
+      start = Number(from);
+      end =
+        to === undefined ? (stepPart === undefined ? start : max) : Number(to);
+    }
+    if (
+      ![start, end, step].every(Number.isInteger) ||
+      start < min ||
+      end > max ||
+      start > end ||
+      step < 1
+    ) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a cron expression such as `"*\/15 9-17 * * 1-5"`.
+ * Supports `*`, single values, ranges, lists and steps.
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELD_RANGES[i])
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  const cron = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== "*",
+    daysOfWeekRestricted: fields[4] !== "*",
+  };
+  if (!canMatchDay(cron)) {
+    throw new Error(
+      `Invalid cron expression "${expression}": no month has the given day.`
+    );
+  }
+  return cron;
+}
+
+// The most days each month can have, counting February in leap years.
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Catches expressions such as "0 0 31 2 *" that parse but never run. Every
+// day of the week comes up in every month, so a restricted day of the week
+// always matches some day, alone or together with the day of the month.
+function canMatchDay(cron: CronExpression): boolean {
+  if (cron.daysOfWeekRestricted) return true;
+  return [...cron.months].some((month) =>
+    [...cron.daysOfMonth].some((day) => day <= DAYS_IN_MONTH[month - 1])
+  );
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// Enough to find the next run of any valid expression, e.g. "0 0 29 2 *"
+// only matches every four years.
+const MAX_ITERATIONS = 100_000;
+
+/**
+ * Finds the first time strictly after `after` that matches the expression.
+ */
+export function getNextCronTime(cron: CronExpression, after: number): number {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date.getTime();
+    }
+  }
+  throw new Error("Could not find the next run time for the cron expression.");
+}
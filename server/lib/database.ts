@@ -6,7 +6,7 @@ import type { AppSchema } from "../../convex/_schema.ts";
 // Initialize better-sqlite3
 // The path to the SQLite database file is now managed by drizzle.config.ts for migrations,
 // but we still need to point the runtime client to it.
-const sqlite = new Database("./dev.sqlite3");
+export const sqlite = new Database("./dev.sqlite3");
 
 // Initialize Drizzle ORM
 // The schema object will be populated with our Drizzle table definitions
@@ -0,0 +1,66 @@
+import type { ZodError } from "zod/v4";
+import {
+  ConvexLiteError,
+  type ValidationIssue,
+} from "../../convex/_lib/errors";
+
+// The HTTP status codes of the error codes the server uses itself. Codes
+// defined by the app are client errors and answered with 400.
+const HTTP_STATUS_BY_CODE: Record<string, number> = {
+  BAD_REQUEST: 400,
+  VALIDATION_ERROR: 400,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  FILE_TOO_LARGE: 413,
+  PAYLOAD_TOO_LARGE: 413,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  SERVER_SHUTTING_DOWN: 503,
+};
+
+/**
+ * Turns the issues of a failed Zod parse into field-level issues for the
+ * client. Symbol keys cannot be serialized and become strings.
+ */
+export function toValidationIssues(error: ZodError): ValidationIssue[] {
+  return error.issues.map(({ path, message, code }) => ({
+    path: path.map((key) => (typeof key === "symbol" ? String(key) : key)),
+    message,
+    code,
+  }));
+}
+
+/**
+ * The error the client gets for an error thrown while running a function.
+ * A `ConvexLiteError` is passed on as it is; anything else becomes an
+ * `INTERNAL_ERROR` whose message names the function.
+ */
+export function toConvexLiteError(
+  error: unknown,
+  description: string
+): ConvexLiteError {
+  if (error instanceof ConvexLiteError) return error;
+  return new ConvexLiteError(
+    "INTERNAL_ERROR",
+    `Error in ${description}: ${
+      error instanceof Error ? error.message : String(error)
+    }`
+  );
+}
+
+export function getHttpStatus(error: ConvexLiteError): number {
+  return HTTP_STATUS_BY_CODE[error.code] ?? 400;
+}
+
+/**
+ * The error for a token the verifier rejected or failed on.
+ */
+export function toAuthenticationError(error: unknown): ConvexLiteError {
+  return new ConvexLiteError(
+    "UNAUTHENTICATED",
+    `Authentication failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`
+  );
+}
@@ -0,0 +1,271 @@
+import crypto from "crypto";
+import { Readable, Transform } from "stream";
+import { buffer } from "stream/consumers";
+import { and, asc, eq, isNull, lt, type SQL } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { type schema as appSchemaDefinition } from "../../convex/_schema";
+import type {
+  FileMetadata,
+  ListFilesOptions,
+  StorageBackend,
+  StorageId,
+} from "../../convex/_lib/storage";
+import { ConvexLiteError } from "../../convex/_lib/errors";
+import { storageTable } from "./system-tables";
+import type { TransactionManager } from "./transactions";
+
+// Uploads and downloads are served under this path.
+export const STORAGE_ROUTE = "/api/storage";
+
+const UPLOAD_URL_LIFETIME_MS = 60 * 60 * 1000;
+
+export function fileTooLargeError(maxSize: number): ConvexLiteError {
+  return new ConvexLiteError(
+    "FILE_TOO_LARGE",
+    `The file is larger than ${maxSize} bytes.`,
+    { maxSize }
+  );
+}
+
+function toFileMetadata(row: typeof storageTable.$inferSelect): FileMetadata {
+  return {
+    storageId: row._id,
+    sha256: row.sha256,
+    size: row.size,
+    contentType: row.content_type,
+    createdAt: row.created_at,
+    owner: row.owner,
+  };
+}
+
+/**
+ * Stores files in a `StorageBackend` and keeps their metadata in the
+ * `_storage` system table.
+ *
+ * The synchronous methods touch the database directly and are meant for
+ * queries and mutations, which already have their turn. The async ones wait
+ * for their turn themselves.
+ */
+export class FileStorage {
+  private db: BetterSQLite3Database<typeof appSchemaDefinition>;
+  private transactions: TransactionManager;
+  private backend: StorageBackend;
+  // Signs upload URLs. It is not persisted, so they do not survive restarts.
+  private secret = crypto.randomBytes(32);
+  // The upload tokens that were used already, with their expiry. An upload
+  // URL takes a single file.
+  private usedUploadTokens = new Map<string, number>();
+
+  constructor(
+    db: BetterSQLite3Database<typeof appSchemaDefinition>,
+    transactions: TransactionManager,
+    backend: StorageBackend
+  ) {
+    this.db = db;
+    this.transactions = transactions;
+    this.backend = backend;
+  }
+
+  private sign(value: string): string {
+    return crypto
+      .createHmac("sha256", this.secret)
+      .update(value)
+      .digest("base64url");
+  }
+
+  // The owner of the uploaded file is part of the signed token.
+  createUploadUrl(owner: string | null = null): string {
+    const expiresAt = String(Date.now() + UPLOAD_URL_LIFETIME_MS);
+    const nonce = crypto.randomBytes(16).toString("base64url");
+    const encodedOwner = Buffer.from(JSON.stringify(owner)).toString(
+      "base64url"
+    );
+    const payload = `${expiresAt}.${nonce}.${encodedOwner}`;
+    return `${STORAGE_ROUTE}/upload?token=${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Checks an upload token and marks it as used.
+   * @returns The owner the file is stored for, or `null` if the token was
+   * invalid or had been used before.
+   */
+  consumeUploadToken(token: unknown): { owner: string | null } | null {
+    if (typeof token !== "string") return null;
+    const [expiresAt, nonce = "", encodedOwner = "", signature = ""] =
+      token.split(".");
+    const expected = Buffer.from(
+      this.sign(`${expiresAt}.${nonce}.${encodedOwner}`)
+    );
+    const actual = Buffer.from(signature);
+    const now = Date.now();
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected) ||
+      !(Number(expiresAt) > now) ||
+      this.usedUploadTokens.has(token)
+    ) {
+      return null;
+    }
+    // Expired tokens are rejected anyway, so there is no need to keep them.
+    for (const [usedToken, usedExpiresAt] of this.usedUploadTokens) {
+      if (usedExpiresAt <= now) this.usedUploadTokens.delete(usedToken);
+    }
+    this.usedUploadTokens.set(token, Number(expiresAt));
+    // Signed by us, so it is the JSON we encoded.
+    const owner = JSON.parse(
+      Buffer.from(encodedOwner, "base64url").toString()
+    ) as string | null;
+    return { owner };
+  }
+
+  getUrl(storageId: StorageId): string {
+    return `${STORAGE_ROUTE}/${encodeURIComponent(storageId)}`;
+  }
+
+  getMetadata(storageId: StorageId): FileMetadata | null {
+    const row = this.db
+      .select()
+      .from(storageTable)
+      .where(eq(storageTable._id, storageId))
+      .get();
+    return row ? toFileMetadata(row) : null;
+  }
+
+  list(options: ListFilesOptions = {}): FileMetadata[] {
+    const conditions: SQL[] = [];
+    if (options.owner === null) {
+      conditions.push(isNull(storageTable.owner));
+    } else if (options.owner !== undefined) {
+      conditions.push(eq(storageTable.owner, options.owner));
+    }
+    if (options.createdBefore !== undefined) {
+      conditions.push(lt(storageTable.created_at, options.createdBefore));
+    }
+    const query = this.db
+      .select()
+      .from(storageTable)
+      .where(and(...conditions))
+      .orderBy(asc(storageTable.created_at));
+    const rows =
+      options.limit === undefined
+        ? query.all()
+        : query.limit(options.limit).all();
+    return rows.map(toFileMetadata);
+  }
+
+  /**
+   * Removes the metadata of a file. Its contents have to be removed with
+   * `deleteContents` once that is final, e.g. after a mutation committed.
+   * @returns Whether there was such a file.
+   */
+  deleteMetadata(storageId: StorageId): boolean {
+    const deleted = this.db
+      .delete(storageTable)
+      .where(eq(storageTable._id, storageId))
+      .returning({ _id: storageTable._id })
+      .all();
+    return deleted.length > 0;
+  }
+
+  async deleteContents(storageId: StorageId) {
+    try {
+      await this.backend.delete(storageId);
+    } catch (error) {
+      console.error(
+        `Failed to delete the contents of file ${storageId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Stores a new file and records its size and hash along the way. Fails with
+   * a `FILE_TOO_LARGE` error once the contents exceed `maxSize` bytes.
+   */
+  async store(
+    contents: Readable,
+    contentType: string | null,
+    options: { maxSize?: number; owner?: string | null } = {}
+  ): Promise<StorageId> {
+    const { maxSize = Infinity, owner = null } = options;
+    const storageId = crypto.randomUUID();
+    const hash = crypto.createHash("sha256");
+    let size = 0;
+    const measured = contents.pipe(
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+          if (size > maxSize) {
+            callback(fileTooLargeError(maxSize));
+            return;
+          }
+          callback(null, chunk);
+        },
+      })
+    );
+    contents.on("error", (error) => measured.destroy(error));
+    // The stream can fail before the backend starts reading it, which then
+    // gets the error from the destroyed stream instead.
+    measured.on("error", () => {});
+
+    try {
+      await this.backend.write(storageId, measured);
+    } catch (error) {
+      await this.deleteContents(storageId);
+      throw size > maxSize ? fileTooLargeError(maxSize) : error;
+    }
+    await this.transactions.runExclusive(async () => {
+      this.db
+        .insert(storageTable)
+        .values({
+          _id: storageId,
+          sha256: hash.digest("hex"),
+          size,
+          content_type: contentType,
+          created_at: Date.now(),
+          owner,
+        })
+        .run();
+    });
+    return storageId;
+  }
+
+  /**
+   * The metadata and contents of a file, or `null` if there is no such file.
+   */
+  async open(
+    storageId: StorageId
+  ): Promise<{ metadata: FileMetadata; contents: Readable } | null> {
+    const metadata = await this.transactions.runExclusive(async () =>
+      this.getMetadata(storageId)
+    );
+    if (!metadata) return null;
+    const contents = await this.backend.read(storageId);
+    return contents ? { metadata, contents } : null;
+  }
+
+  async read(storageId: StorageId): Promise<Blob | null> {
+    const file = await this.open(storageId);
+    if (!file) return null;
+    return new Blob([await buffer(file.contents)], {
+      type: file.metadata.contentType ?? undefined,
+    });
+  }
+
+  async storeBlob(blob: Blob, owner: string | null = null): Promise<StorageId> {
+    // A Blob is in memory already, so there is nothing to stream.
+    return this.store(
+      Readable.from([Buffer.from(await blob.arrayBuffer())]),
+      blob.type || null,
+      { owner }
+    );
+  }
+
+  async delete(storageId: StorageId) {
+    const existed = await this.transactions.runExclusive(async () =>
+      this.deleteMetadata(storageId)
+    );
+    if (existed) await this.deleteContents(storageId);
+  }
+}
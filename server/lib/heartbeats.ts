@@ -0,0 +1,59 @@
+import { WebSocket } from "ws";
+
+export interface HeartbeatOptions {
+  // How often every connection is pinged.
+  intervalMs: number;
+  // How long a connection may stay silent, not even answering pings, before
+  // it is considered dead.
+  idleTimeoutMs: number;
+}
+
+/**
+ * Pings every connection at a regular interval and terminates the ones that
+ * have not been heard from in a while. Without this, half-open connections,
+ * e.g. of a laptop that went to sleep, would linger and keep being sent
+ * subscription updates. Any message or pong counts as a sign of life.
+ */
+export class HeartbeatMonitor {
+  private options: HeartbeatOptions;
+  private lastSeen = new Map<WebSocket, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: HeartbeatOptions) {
+    this.options = options;
+  }
+
+  track(ws: WebSocket) {
+    const touch = () => this.lastSeen.set(ws, Date.now());
+    touch();
+    ws.on("pong", touch);
+    ws.on("message", touch);
+    ws.on("close", () => this.lastSeen.delete(ws));
+  }
+
+  start() {
+    this.timer = setInterval(() => this.check(), this.options.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private check() {
+    const now = Date.now();
+    for (const [ws, lastSeen] of this.lastSeen) {
+      if (now - lastSeen > this.options.idleTimeoutMs) {
+        console.log(
+          `Terminating a connection that was silent for ${now - lastSeen}ms`
+        );
+        // `terminate` rather than `close`: a dead peer would never finish
+        // the closing handshake. It still emits `close`.
+        this.lastSeen.delete(ws);
+        ws.terminate();
+      } else if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import type {
+  Request as ExpressRequest,
+  Response as ExpressResponse,
+} from "express";
+import { ConvexLiteError } from "../../convex/_lib/errors";
+
+function bodyTooLargeError(maxSize: number): ConvexLiteError {
+  return new ConvexLiteError(
+    "PAYLOAD_TOO_LARGE",
+    `The request body is larger than ${maxSize} bytes.`,
+    { maxSize }
+  );
+}
+
+async function readBody(req: ExpressRequest, maxSize: number): Promise<Buffer> {
+  // Turn away bodies that announce their size before reading any of them.
+  if (Number(req.get("content-length")) > maxSize) {
+    throw bodyTooLargeError(maxSize);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer: Buffer =
+      typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    size += buffer.length;
+    if (size > maxSize) throw bodyTooLargeError(maxSize);
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Turns an incoming Express request into a Fetch API `Request`. The body is
+ * read from the raw stream, so no body parser may run before this. Fails
+ * with a `PAYLOAD_TOO_LARGE` error once the body exceeds `maxBodySize`
+ * bytes.
+ */
+export async function toFetchRequest(
+  req: ExpressRequest,
+  maxBodySize: number
+): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  return new Request(`${req.protocol}://${req.get("host")}${req.originalUrl}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? await readBody(req, maxBodySize) : undefined,
+  });
+}
+
+/**
+ * Sends a Fetch API `Response` through Express.
+ */
+export async function sendFetchResponse(
+  res: ExpressResponse,
+  response: Response
+) {
+  res.status(response.status);
+  response.headers.forEach((value, name) => res.appendHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import { and, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { type schema as appSchemaDefinition } from "../../convex/_schema";
+import { leasesTable } from "./system-tables";
+import type { TransactionManager } from "./transactions";
+
+export interface LeaderLeaseOptions {
+  // How long the lease lasts unless it is renewed. Another instance takes
+  // over this long after the leader stopped renewing it, e.g. because it
+  // crashed.
+  durationMs: number;
+  // How often the leader renews the lease, and the other instances check
+  // whether it expired.
+  renewIntervalMs: number;
+}
+
+export interface LeaderCallbacks {
+  // Called when this instance becomes the leader.
+  onElected: () => Promise<void>;
+  // Called when it stops being the leader. Resolves once the work it did as
+  // the leader has stopped.
+  onDeposed: () => Promise<void>;
+}
+
+/**
+ * Elects one of the server instances that share the database as the leader,
+ * which then does the work that must happen only once, e.g. running the
+ * scheduled functions and cron jobs. The lease is a row in the `_leases`
+ * system table that names its holder and when it expires.
+ */
+export class LeaderLease {
+  private db: BetterSQLite3Database<typeof appSchemaDefinition>;
+  private transactions: TransactionManager;
+  private name: string;
+  private options: LeaderLeaseOptions;
+  private instanceId = crypto.randomUUID();
+
+  private callbacks: LeaderCallbacks | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isLeader = false;
+  private isStopped = true;
+  // The check of the lease in progress, if any.
+  private checking: Promise<void> | null = null;
+  // Starting and stopping the leader's work, one after the other. The lease
+  // is renewed meanwhile.
+  private transition: Promise<void> = Promise.resolve();
+
+  constructor(
+    db: BetterSQLite3Database<typeof appSchemaDefinition>,
+    transactions: TransactionManager,
+    name: string,
+    options: LeaderLeaseOptions
+  ) {
+    this.db = db;
+    this.transactions = transactions;
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * Takes the lease if no other instance holds it, and keeps trying until
+   * this instance is stopped.
+   */
+  async start(callbacks: LeaderCallbacks) {
+    this.callbacks = callbacks;
+    this.isStopped = false;
+    await this.check();
+    this.timer = setInterval(
+      () => void this.check(),
+      this.options.renewIntervalMs
+    );
+  }
+
+  /**
+   * Stops the leader's work and hands the lease back, so another instance
+   * can take over right away.
+   */
+  async stop() {
+    this.isStopped = true;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.checking;
+    if (this.isLeader) this.depose();
+    await this.transition;
+    await this.transactions.runExclusive(async () => {
+      this.db
+        .delete(leasesTable)
+        .where(
+          and(
+            eq(leasesTable.name, this.name),
+            eq(leasesTable.holder, this.instanceId)
+          )
+        )
+        .run();
+    });
+  }
+
+  private check(): Promise<void> {
+    this.checking ??= this.updateLeadership().finally(() => {
+      this.checking = null;
+    });
+    return this.checking;
+  }
+
+  private async updateLeadership() {
+    // A lease that cannot be renewed may expire any moment, so the work stops
+    // rather than risk running alongside another leader.
+    const holdsLease = await this.renew().catch((error) => {
+      console.error(`[Lease] Failed to renew ${this.name}:`, error);
+      return false;
+    });
+    if (holdsLease && !this.isLeader && !this.isStopped) {
+      this.isLeader = true;
+      console.log(`[Lease] This instance now runs ${this.name}.`);
+      this.transit(() => this.callbacks?.onElected());
+    } else if (!holdsLease && this.isLeader) {
+      console.warn(`[Lease] This instance no longer runs ${this.name}.`);
+      this.depose();
+    }
+  }
+
+  private depose() {
+    this.isLeader = false;
+    this.transit(() => this.callbacks?.onDeposed());
+  }
+
+  private transit(change: () => Promise<void> | undefined) {
+    this.transition = this.transition
+      .then(change)
+      .catch((error) =>
+        console.error(`[Lease] Failed to hand over ${this.name}:`, error)
+      );
+  }
+
+  /**
+   * Renews the lease, or takes it over if it has expired.
+   * @returns Whether this instance holds the lease now.
+   */
+  private renew(): Promise<boolean> {
+    return this.transactions.runInTransaction(async () => {
+      const now = Date.now();
+      const lease = this.db
+        .select()
+        .from(leasesTable)
+        .where(eq(leasesTable.name, this.name))
+        .get();
+      if (lease && lease.holder !== this.instanceId && lease.expires_at > now) {
+        return false;
+      }
+      const expiresAt = now + this.options.durationMs;
+      this.db
+        .insert(leasesTable)
+        .values({
+          name: this.name,
+          holder: this.instanceId,
+          expires_at: expiresAt,
+        })
+        .onConflictDoUpdate({
+          target: leasesTable.name,
+          set: { holder: this.instanceId, expires_at: expiresAt },
+        })
+        .run();
+      return true;
+    });
+  }
+}
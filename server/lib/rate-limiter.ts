@@ -0,0 +1,88 @@
+import { ConvexLiteError } from "../../convex/_lib/errors";
+import type {
+  RateLimitConfig,
+  RateLimitedErrorData,
+} from "../../convex/_lib/rate-limit";
+
+// How often limits that have recovered completely are forgotten.
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface LimitState {
+  // Tokens left in the bucket, or calls made in the window.
+  value: number;
+  // When the tokens were counted, or when the window started.
+  time: number;
+  // From then on, the state is as good as new and can be dropped.
+  expiresAt: number;
+}
+
+/**
+ * Keeps the state of rate limits in memory, so limits start over when the
+ * server restarts. Each limit is identified by a name, e.g. the function it
+ * guards, and a key, e.g. the user calling it.
+ */
+export class RateLimiter {
+  private states = new Map<string, LimitState>();
+  private lastSweep = Date.now();
+
+  /**
+   * Counts a call against a limit.
+   * @returns `0` if the call is allowed, otherwise the milliseconds until it
+   * would be.
+   */
+  consume(name: string, key: string, config: RateLimitConfig): number {
+    const now = Date.now();
+    this.sweep(now);
+    const stateKey = `${name}\u0000${key}`;
+    const state = this.states.get(stateKey);
+
+    if (config.kind === "fixed window") {
+      const windowStart = now - (now % config.period);
+      const count = state && state.time === windowStart ? state.value : 0;
+      if (count >= config.rate) return windowStart + config.period - now;
+      this.states.set(stateKey, {
+        value: count + 1,
+        time: windowStart,
+        expiresAt: windowStart + config.period,
+      });
+      return 0;
+    }
+
+    const capacity = config.capacity ?? config.rate;
+    const refillPerMs = config.rate / config.period;
+    const tokens = state
+      ? Math.min(capacity, state.value + (now - state.time) * refillPerMs)
+      : capacity;
+    if (tokens < 1) return Math.ceil((1 - tokens) / refillPerMs);
+    this.states.set(stateKey, {
+      value: tokens - 1,
+      time: now,
+      expiresAt: now + (capacity - tokens + 1) / refillPerMs,
+    });
+    return 0;
+  }
+
+  /**
+   * Counts a call against a limit and throws a `RATE_LIMITED` error if there
+   * have been too many.
+   */
+  check(name: string, key: string, config: RateLimitConfig) {
+    const retryAfter = this.consume(name, key, config);
+    if (retryAfter === 0) return;
+    throw new ConvexLiteError<RateLimitedErrorData>(
+      "RATE_LIMITED",
+      `Rate limit exceeded for ${name}. Try again in ${Math.ceil(
+        retryAfter / 1000
+      )}s.`,
+      { retryAfter }
+    );
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const [stateKey, state] of this.states) {
+      if (state.expiresAt <= now) this.states.delete(stateKey);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { prettifyError, type ZodType } from "zod/v4";
+
+const IS_PRODUCTION = process.env.NODE_ENV === "production";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Lists the paths of the fields that are in `input` but were dropped from
+ * `output` by parsing, e.g. `[0].passwordHash`.
+ */
+function findStrippedFields(
+  input: unknown,
+  output: unknown,
+  path = ""
+): string[] {
+  if (Array.isArray(input) && Array.isArray(output)) {
+    return input.flatMap((item, i) =>
+      findStrippedFields(item, output[i], `${path}[${i}]`)
+    );
+  }
+  if (isPlainObject(input) && isPlainObject(output)) {
+    return Object.entries(input).flatMap(([key, value]) => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (!(key in output)) return value === undefined ? [] : [fieldPath];
+      return findStrippedFields(value, output[key], fieldPath);
+    });
+  }
+  return [];
+}
+
+/**
+ * Parses a handler's return value with its `returns` schema. Fields the
+ * schema does not describe are stripped in production and rejected in
+ * development, so they are noticed before they leak.
+ */
+export function validateReturnValue(returns: ZodType, value: unknown): unknown {
+  const result = returns.safeParse(value);
+  if (!result.success) {
+    throw new Error(
+      `The return value does not match the \`returns\` schema:\n${prettifyError(
+        result.error
+      )}`
+    );
+  }
+  if (!IS_PRODUCTION) {
+    const strippedFields = findStrippedFields(value, result.data);
+    if (strippedFields.length > 0) {
+      throw new Error(
+        `The return value has fields that are not in the \`returns\` schema: ${strippedFields.join(
+          ", "
+        )}. Remove them from the handler's result or add them to the schema; in production they are stripped.`
+      );
+    }
+  }
+  return result.data;
+}
@@ -0,0 +1,247 @@
+import { and, asc, eq, lte } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { type schema as appSchemaDefinition } from "../../convex/_schema";
+import { parseValue, stringifyValue } from "../../common/values";
+import { scheduledFunctionsTable } from "./system-tables";
+import type { TransactionManager } from "./transactions";
+
+export interface FunctionSchedulerOptions {
+  // How many times a job runs before it is marked as failed.
+  maxAttempts: number;
+  // The delay before the first retry. It doubles with every further attempt.
+  retryBaseDelayMs: number;
+  // How many due jobs are claimed at once.
+  batchSize: number;
+  // How often to look for jobs that other server instances scheduled, which
+  // do not wake this one up.
+  pollIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: FunctionSchedulerOptions = {
+  maxAttempts: 3,
+  retryBaseDelayMs: 1000,
+  batchSize: 10,
+  pollIntervalMs: 1000,
+};
+
+// setTimeout cannot wait longer than ~24.8 days; we simply wake up and re-check.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Runs functions at a later point in time. Jobs are stored in the
+ * `_scheduled_functions` system table, so they survive server restarts,
+ * and every attempt records its state, result or error there.
+ */
+export class FunctionScheduler {
+  private db: BetterSQLite3Database<typeof appSchemaDefinition>;
+  private transactions: TransactionManager;
+  private runFunction: (name: string, args: unknown) => Promise<unknown>;
+  private options: FunctionSchedulerOptions;
+
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private nextWakeUp: number | null = null;
+  private isRunning = false;
+  private isStopped = true;
+  // The jobs being processed right now, if any.
+  private processing: Promise<void> = Promise.resolve();
+
+  constructor(
+    db: BetterSQLite3Database<typeof appSchemaDefinition>,
+    transactions: TransactionManager,
+    runFunction: (name: string, args: unknown) => Promise<unknown>,
+    options: Partial<FunctionSchedulerOptions> = {}
+  ) {
+    this.db = db;
+    this.transactions = transactions;
+    this.runFunction = runFunction;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Starts processing jobs, without waiting for the due ones. Jobs that were
+   * in progress when the server last stopped did not finish, so they are
+   * queued up again. Only one instance may run the scheduler at a time, see
+   * `LeaderLease`.
+   */
+  async start() {
+    this.isStopped = false;
+    await this.transactions.runExclusive(async () => {
+      await this.db
+        .update(scheduledFunctionsTable)
+        .set({ state: "pending" })
+        .where(eq(scheduledFunctionsTable.state, "inProgress"));
+    });
+    this.wakeUp().catch((error) =>
+      console.error("[Scheduler] Failed to process jobs:", error)
+    );
+  }
+
+  /**
+   * Stops processing jobs. Resolves once the jobs that already started have
+   * finished and their outcome is stored.
+   */
+  async stop() {
+    this.isStopped = true;
+    if (this.timeoutId) clearTimeout(this.timeoutId);
+    this.timeoutId = null;
+    this.nextWakeUp = null;
+    await this.processing;
+  }
+
+  /**
+   * Stores a new job. When called inside a mutation, the job is part of the
+   * mutation's transaction and disappears if the mutation rolls back.
+   * @returns The id of the scheduled job.
+   */
+  schedule(scheduledTime: number, name: string, args: unknown): string {
+    const id = crypto.randomUUID();
+    this.db
+      .insert(scheduledFunctionsTable)
+      .values({
+        _id: id,
+        name,
+        args: stringifyValue(args ?? null),
+        scheduled_time: scheduledTime,
+        state: "pending",
+        attempts: 0,
+        max_attempts: this.options.maxAttempts,
+        created_at: Date.now(),
+      })
+      .run();
+    this.armTimer(scheduledTime);
+    return id;
+  }
+
+  /**
+   * Cancels a job that has not started yet. Finished jobs are left untouched.
+   */
+  cancel(id: string) {
+    this.db
+      .update(scheduledFunctionsTable)
+      .set({ state: "canceled", completed_at: Date.now() })
+      .where(
+        and(
+          eq(scheduledFunctionsTable._id, id),
+          eq(scheduledFunctionsTable.state, "pending")
+        )
+      )
+      .run();
+  }
+
+  private armTimer(time: number) {
+    if (this.isStopped) return;
+    if (this.nextWakeUp !== null && this.nextWakeUp <= time) return;
+    if (this.timeoutId) clearTimeout(this.timeoutId);
+
+    const delay = Math.min(Math.max(time - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    this.nextWakeUp = Date.now() + delay;
+    this.timeoutId = setTimeout(() => {
+      this.timeoutId = null;
+      this.nextWakeUp = null;
+      this.wakeUp().catch((error) =>
+        console.error("[Scheduler] Failed to process jobs:", error)
+      );
+    }, delay);
+  }
+
+  private async wakeUp() {
+    if (this.isStopped || this.isRunning) return;
+    this.isRunning = true;
+    this.processing = this.runDueJobs();
+    try {
+      await this.processing;
+    } finally {
+      this.isRunning = false;
+    }
+    if (this.isStopped) return;
+
+    const next = this.db
+      .select({ scheduled_time: scheduledFunctionsTable.scheduled_time })
+      .from(scheduledFunctionsTable)
+      .where(eq(scheduledFunctionsTable.state, "pending"))
+      .orderBy(asc(scheduledFunctionsTable.scheduled_time))
+      .limit(1)
+      .get();
+    this.armTimer(
+      Math.min(
+        next?.scheduled_time ?? Infinity,
+        Date.now() + this.options.pollIntervalMs
+      )
+    );
+  }
+
+  private async runDueJobs() {
+    let jobs = await this.claimDueJobs();
+    // Claimed jobs are always run, so none is left in progress by a stop.
+    while (jobs.length > 0) {
+      await Promise.all(jobs.map((job) => this.runJob(job)));
+      if (this.isStopped) return;
+      jobs = await this.claimDueJobs();
+    }
+  }
+
+  // Marks due jobs as in progress inside a transaction, so a job is never
+  // picked up twice and never seen before the mutation that created it commits.
+  private claimDueJobs() {
+    return this.transactions.runInTransaction(async () => {
+      const jobs = this.db
+        .select()
+        .from(scheduledFunctionsTable)
+        .where(
+          and(
+            eq(scheduledFunctionsTable.state, "pending"),
+            lte(scheduledFunctionsTable.scheduled_time, Date.now())
+          )
+        )
+        .orderBy(asc(scheduledFunctionsTable.scheduled_time))
+        .limit(this.options.batchSize)
+        .all();
+      for (const job of jobs) {
+        job.attempts += 1;
+        this.db
+          .update(scheduledFunctionsTable)
+          .set({ state: "inProgress", attempts: job.attempts })
+          .where(eq(scheduledFunctionsTable._id, job._id))
+          .run();
+      }
+      return jobs;
+    });
+  }
+
+  private async runJob(job: typeof scheduledFunctionsTable.$inferSelect) {
+    let update: Partial<typeof scheduledFunctionsTable.$inferInsert>;
+    try {
+      const result = await this.runFunction(job.name, parseValue(job.args));
+      update = {
+        state: "success",
+        result: stringifyValue(result ?? null),
+        error: null,
+        completed_at: Date.now(),
+      };
+      console.log(`[Scheduler] Ran ${job.name} (${job._id})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (job.attempts < job.max_attempts) {
+        const retryAt =
+          Date.now() + this.options.retryBaseDelayMs * 2 ** (job.attempts - 1);
+        update = { state: "pending", error: message, scheduled_time: retryAt };
+        console.warn(
+          `[Scheduler] ${job.name} (${job._id}) failed on attempt ${job.attempts}, retrying: ${message}`
+        );
+      } else {
+        update = { state: "failed", error: message, completed_at: Date.now() };
+        console.error(
+          `[Scheduler] ${job.name} (${job._id}) failed after ${job.attempts} attempt(s): ${message}`
+        );
+      }
+    }
+
+    await this.transactions.runExclusive(async () => {
+      this.db
+        .update(scheduledFunctionsTable)
+        .set(update)
+        .where(eq(scheduledFunctionsTable._id, job._id))
+        .run();
+    });
+  }
+}
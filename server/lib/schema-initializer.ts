@@ -8,6 +8,7 @@ import {
 import type { AppSchema } from "../../convex/_schema";
 import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
 import { type schema as appSchemaDefinition } from "../../convex/_schema";
+import { ensureSystemTables } from "./system-tables";
 
 // THE FIX - Step 1: Declare the symbol as a constant.
 const drizzleColumnsSymbol = Symbol.for("drizzle:Columns");
@@ -164,6 +165,8 @@ export async function ensureDatabaseSchemaIsUpToDate(
     console.log(`Schema metadata table created.`);
   }
 
+  await ensureSystemTables(db);
+
   const currentSnapshotJson = generateSchemaSnapshot(appSchema);
 
   const storedEntry = await db
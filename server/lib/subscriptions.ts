@@ -0,0 +1,104 @@
+import type { WebSocket } from "ws";
+import { getQueryCacheKey } from "../../common/query-cache";
+import type { VerifiedToken } from "../../convex/_lib/auth";
+
+export interface Subscription {
+  id: string;
+  queryKey: string;
+  params: unknown;
+  // The tables the query read from the last time it ran for this subscription.
+  readTables: Set<string>;
+  // The identity of the connection, which the query runs with.
+  auth: VerifiedToken | null;
+}
+
+/**
+ * A group of subscriptions that share the same query, arguments and user,
+ * so the query only has to run once to serve all of them.
+ */
+export interface SubscriptionGroup {
+  key: string;
+  queryKey: string;
+  params: unknown;
+  auth: VerifiedToken | null;
+  subscribers: { ws: WebSocket; subscription: Subscription }[];
+}
+
+/**
+ * Keeps track of the live query subscriptions of every connected client.
+ */
+export class SubscriptionRegistry {
+  private byConnection = new Map<WebSocket, Map<string, Subscription>>();
+
+  add(ws: WebSocket, subscription: Subscription) {
+    if (!this.byConnection.has(ws)) {
+      this.byConnection.set(ws, new Map());
+    }
+    this.byConnection.get(ws)!.set(subscription.id, subscription);
+  }
+
+  remove(ws: WebSocket, subscriptionId: string) {
+    this.byConnection.get(ws)?.delete(subscriptionId);
+  }
+
+  /**
+   * Drops every subscription of a connection, e.g. when the client disconnects.
+   */
+  removeConnection(ws: WebSocket) {
+    this.byConnection.delete(ws);
+  }
+
+  /**
+   * Switches every subscription of a connection to a new identity.
+   */
+  setConnectionAuth(ws: WebSocket, auth: VerifiedToken | null) {
+    this.byConnection
+      .get(ws)
+      ?.forEach((subscription) => (subscription.auth = auth));
+  }
+
+  /**
+   * The queries each connection has live subscriptions to.
+   */
+  getQueryKeysByConnection(): Map<WebSocket, Set<string>> {
+    const queryKeys = new Map<WebSocket, Set<string>>();
+    for (const [ws, subscriptions] of this.byConnection) {
+      queryKeys.set(
+        ws,
+        new Set([...subscriptions.values()].map(({ queryKey }) => queryKey))
+      );
+    }
+    return queryKeys;
+  }
+
+  /**
+   * Collects the live subscriptions that pass `matches`, grouped by their
+   * query, arguments and user.
+   */
+  getGroups(
+    matches: (subscription: Subscription, ws: WebSocket) => boolean
+  ): SubscriptionGroup[] {
+    const groups = new Map<string, SubscriptionGroup>();
+    for (const [ws, subscriptions] of this.byConnection) {
+      for (const subscription of subscriptions.values()) {
+        if (!matches(subscription, ws)) continue;
+        // Different users may see different results for the same arguments.
+        const key = `${subscription.auth?.identity.tokenIdentifier ?? ""}|${getQueryCacheKey(
+          subscription.queryKey,
+          subscription.params
+        )}`;
+        if (!groups.has(key)) {
+          groups.set(key, {
+            key,
+            queryKey: subscription.queryKey,
+            params: subscription.params,
+            auth: subscription.auth,
+            subscribers: [],
+          });
+        }
+        groups.get(key)!.subscribers.push({ ws, subscription });
+      }
+    }
+    return [...groups.values()];
+  }
+}
@@ -0,0 +1,162 @@
+import { sql } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import {
+  sqliteTable,
+  text,
+  integer as drizzleInteger,
+} from "drizzle-orm/sqlite-core";
+import { type schema as appSchemaDefinition } from "../../convex/_schema";
+
+// System tables hold the framework's own state. Their names start with an
+// underscore and they live outside the app schema, so they are never part of
+// the schema snapshot and survive app schema changes.
+
+export const scheduledFunctionsTable = sqliteTable("_scheduled_functions", {
+  _id: text("_id").primaryKey(),
+  name: text("name").notNull(), // The function key, e.g. "tasks:archiveTask"
+  args: text("args").notNull(), // JSON-encoded arguments
+  scheduled_time: drizzleInteger("scheduled_time").notNull(),
+  state: text("state")
+    .$type<"pending" | "inProgress" | "success" | "failed" | "canceled">()
+    .notNull(),
+  attempts: drizzleInteger("attempts").notNull(),
+  max_attempts: drizzleInteger("max_attempts").notNull(),
+  result: text("result"), // JSON-encoded return value
+  error: text("error"),
+  created_at: drizzleInteger("created_at").notNull(),
+  completed_at: drizzleInteger("completed_at"),
+});
+
+export const cronJobsTable = sqliteTable("_cron_jobs", {
+  name: text("name").primaryKey(),
+  schedule: text("schedule").notNull(), // JSON-encoded CronSchedule
+  next_run_at: drizzleInteger("next_run_at").notNull(),
+  last_run_at: drizzleInteger("last_run_at"),
+  last_state: text("last_state").$type<"success" | "failed" | "skipped">(),
+  is_running: drizzleInteger("is_running", { mode: "boolean" }).notNull(),
+});
+
+export const cronRunsTable = sqliteTable("_cron_runs", {
+  _id: text("_id").primaryKey(),
+  name: text("name").notNull(),
+  state: text("state")
+    .$type<"running" | "success" | "failed" | "skipped">()
+    .notNull(),
+  started_at: drizzleInteger("started_at").notNull(),
+  finished_at: drizzleInteger("finished_at"),
+  error: text("error"),
+});
+
+export const usersTable = sqliteTable("_users", {
+  _id: text("_id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password_hash: text("password_hash").notNull(),
+  roles: text("roles", { mode: "json" }).$type<string[]>().notNull(),
+  created_at: drizzleInteger("created_at").notNull(),
+});
+
+export const sessionsTable = sqliteTable("_sessions", {
+  _id: text("_id").primaryKey(),
+  // Only a hash of the session token is stored, never the token itself.
+  token_hash: text("token_hash").notNull().unique(),
+  user_id: text("user_id").notNull(),
+  created_at: drizzleInteger("created_at").notNull(),
+  expires_at: drizzleInteger("expires_at").notNull(),
+});
+
+export const storageTable = sqliteTable("_storage", {
+  _id: text("_id").primaryKey(),
+  sha256: text("sha256").notNull(),
+  size: drizzleInteger("size").notNull(),
+  content_type: text("content_type"),
+  created_at: drizzleInteger("created_at").notNull(),
+  // Set by the function that generated the upload URL, e.g. "attachments",
+  // to tell its files apart from the others.
+  owner: text("owner"),
+});
+
+// A lease names the server instance that does a job for all of them, until
+// it expires unless renewed.
+export const leasesTable = sqliteTable("_leases", {
+  name: text("name").primaryKey(),
+  holder: text("holder").notNull(), // The instance id
+  expires_at: drizzleInteger("expires_at").notNull(),
+});
+
+const SYSTEM_TABLES_SQL = [
+  `CREATE TABLE IF NOT EXISTS _scheduled_functions (
+    _id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    scheduled_time INTEGER NOT NULL,
+    state TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    max_attempts INTEGER NOT NULL,
+    result TEXT,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    completed_at INTEGER
+  );`,
+  `CREATE INDEX IF NOT EXISTS _scheduled_functions_by_state_and_time
+    ON _scheduled_functions (state, scheduled_time);`,
+  `CREATE TABLE IF NOT EXISTS _cron_jobs (
+    name TEXT PRIMARY KEY,
+    schedule TEXT NOT NULL,
+    next_run_at INTEGER NOT NULL,
+    last_run_at INTEGER,
+    last_state TEXT,
+    is_running INTEGER NOT NULL
+  );`,
+  `CREATE TABLE IF NOT EXISTS _cron_runs (
+    _id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    state TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    finished_at INTEGER,
+    error TEXT
+  );`,
+  `CREATE INDEX IF NOT EXISTS _cron_runs_by_name_and_start
+    ON _cron_runs (name, started_at);`,
+  `CREATE TABLE IF NOT EXISTS _users (
+    _id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    roles TEXT NOT NULL DEFAULT '[]',
+    created_at INTEGER NOT NULL
+  );`,
+  `CREATE TABLE IF NOT EXISTS _sessions (
+    _id TEXT PRIMARY KEY,
+    token_hash TEXT NOT NULL UNIQUE,
+    user_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );`,
+  `CREATE INDEX IF NOT EXISTS _sessions_by_user
+    ON _sessions (user_id);`,
+  `CREATE TABLE IF NOT EXISTS _storage (
+    _id TEXT PRIMARY KEY,
+    sha256 TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    content_type TEXT,
+    created_at INTEGER NOT NULL,
+    owner TEXT
+  );`,
+  `CREATE INDEX IF NOT EXISTS _storage_by_owner
+    ON _storage (owner, created_at);`,
+  `CREATE TABLE IF NOT EXISTS _leases (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );`,
+];
+
+/**
+ * Creates any system tables that do not exist yet.
+ */
+export async function ensureSystemTables(
+  db: BetterSQLite3Database<typeof appSchemaDefinition>
+) {
+  for (const statement of SYSTEM_TABLES_SQL) {
+    await db.run(sql.raw(statement));
+  }
+}
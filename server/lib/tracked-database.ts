@@ -0,0 +1,208 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getTableName, is, Table } from "drizzle-orm";
+
+/**
+ * Stands for "every table". Recorded when a handler runs raw SQL, since we
+ * cannot tell which tables the statement touches.
+ */
+export const ALL_TABLES = "*";
+
+/**
+ * The tables a handler read from and wrote to while it ran.
+ */
+export interface TableAccessLog {
+  reads: Set<string>;
+  writes: Set<string>;
+}
+
+export function createTableAccessLog(): TableAccessLog {
+  return { reads: new Set(), writes: new Set() };
+}
+
+/**
+ * Whether a query that read `reads` can be affected by a mutation that wrote `writes`.
+ */
+export function isAffectedBy(
+  reads: ReadonlySet<string>,
+  writes: ReadonlySet<string>
+): boolean {
+  if (reads.has(ALL_TABLES) || writes.has(ALL_TABLES)) {
+    return reads.size > 0 && writes.size > 0;
+  }
+  for (const table of writes) {
+    if (reads.has(table)) return true;
+  }
+  return false;
+}
+
+const WRITE_METHODS = new Set(["insert", "update", "delete"]);
+const SELECT_METHODS = new Set(["select", "selectDistinct"]);
+const RAW_METHODS = new Set(["run", "all", "get", "values"]);
+const TABLE_SOURCE_METHODS = new Set([
+  "from",
+  "leftJoin",
+  "rightJoin",
+  "innerJoin",
+  "fullJoin",
+]);
+
+function recordTable(tables: Set<string>, source: unknown) {
+  // Subqueries and views built through the tracked database record their
+  // own tables when they are constructed, so only plain tables matter here.
+  if (is(source, Table)) {
+    tables.add(getTableName(source));
+  }
+}
+
+/**
+ * Wraps a select builder so that every table it selects from or joins
+ * is recorded as a read. Builder methods that return the builder itself
+ * keep returning the wrapped version, so chaining stays tracked.
+ */
+function trackSelectBuilder(builder: any, log: TableAccessLog): any {
+  return new Proxy(builder, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, target);
+      if (typeof value !== "function") return value;
+      if (typeof prop === "string" && TABLE_SOURCE_METHODS.has(prop)) {
+        return (...args: any[]) => {
+          recordTable(log.reads, args[0]);
+          const result = value.apply(target, args);
+          return result === target ? receiver : trackSelectBuilder(result, log);
+        };
+      }
+      return (...args: any[]) => {
+        const result = value.apply(target, args);
+        return result === target ? receiver : result;
+      };
+    },
+  });
+}
+
+/**
+ * Records the root table of a relational query and, recursively, every table
+ * pulled in through its `with` clause.
+ */
+function recordRelationalReads(
+  queryBuilder: any,
+  tableConfig: any,
+  config: any,
+  log: TableAccessLog
+) {
+  log.reads.add(tableConfig.dbName);
+  const withConfig = config?.with;
+  if (!withConfig || typeof withConfig !== "object") return;
+
+  for (const [relationName, nestedConfig] of Object.entries(withConfig)) {
+    if (!nestedConfig) continue;
+    const relation = tableConfig.relations[relationName];
+    if (!relation) continue;
+    const nestedTsName =
+      queryBuilder.tableNamesMap[relation.referencedTableName];
+    const nestedTableConfig = queryBuilder.schema[nestedTsName];
+    if (nestedTableConfig) {
+      recordRelationalReads(
+        queryBuilder,
+        nestedTableConfig,
+        nestedConfig === true ? undefined : nestedConfig,
+        log
+      );
+    } else {
+      log.reads.add(relation.referencedTableName);
+    }
+  }
+}
+
+function trackRelationalQueries(query: any, log: TableAccessLog): any {
+  return new Proxy(query, {
+    get(target, prop) {
+      const queryBuilder = Reflect.get(target, prop);
+      if (!queryBuilder || typeof queryBuilder !== "object") {
+        return queryBuilder;
+      }
+      return new Proxy(queryBuilder, {
+        get(builderTarget, method) {
+          const value = Reflect.get(builderTarget, method);
+          if (method !== "findMany" && method !== "findFirst") return value;
+          return (config?: unknown) => {
+            recordRelationalReads(
+              builderTarget,
+              builderTarget.tableConfig,
+              config,
+              log
+            );
+            return value.call(builderTarget, config);
+          };
+        },
+      });
+    },
+  });
+}
+
+/**
+ * Wraps a Drizzle database (or transaction) so that every table a handler
+ * reads from or writes to is recorded in `log`. The wrapper is typed as the
+ * original database, so handlers use it exactly like the real thing.
+ */
+export function createTrackedDatabase<DB extends object>(
+  db: DB,
+  log: TableAccessLog
+): DB {
+  return new Proxy(db, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, target);
+
+      if (prop === "query" && value) {
+        return trackRelationalQueries(value, log);
+      }
+      if (typeof value !== "function" || typeof prop !== "string") {
+        return value;
+      }
+
+      if (WRITE_METHODS.has(prop)) {
+        return (table: unknown, ...rest: any[]) => {
+          recordTable(log.writes, table);
+          return value.call(target, table, ...rest);
+        };
+      }
+      if (SELECT_METHODS.has(prop)) {
+        return (...args: any[]) =>
+          trackSelectBuilder(value.apply(target, args), log);
+      }
+      if (prop === "$count") {
+        return (source: unknown, ...rest: any[]) => {
+          recordTable(log.reads, source);
+          return value.call(target, source, ...rest);
+        };
+      }
+      if (RAW_METHODS.has(prop)) {
+        return (...args: any[]) => {
+          log.reads.add(ALL_TABLES);
+          log.writes.add(ALL_TABLES);
+          return value.apply(target, args);
+        };
+      }
+      if (prop === "with" || prop === "$with") {
+        // CTE builders expose the same select/insert/update/delete surface.
+        return (...args: any[]) => {
+          const result = value.apply(target, args);
+          return result && typeof result === "object"
+            ? createTrackedDatabase(result, log)
+            : result;
+        };
+      }
+      if (prop === "transaction") {
+        return (callback: (tx: any) => unknown, ...rest: any[]) =>
+          value.call(
+            target,
+            (tx: any) => callback(createTrackedDatabase(tx, log)),
+            ...rest
+          );
+      }
+      return (...args: any[]) => {
+        const result = value.apply(target, args);
+        return result === target ? receiver : result;
+      };
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import type Database from "better-sqlite3";
+
+/**
+ * Serializes handler access to the shared SQLite connection.
+ *
+ * Handlers are async, so without this a query could run between two writes of
+ * an in-flight mutation and observe (or a second mutation could join) a
+ * transaction that is later rolled back. Every task waits for the previous one.
+ */
+export class TransactionManager {
+  private sqlite: Database.Database;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(sqlite: Database.Database) {
+    this.sqlite = sqlite;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    // Keep the chain alive after a failing task; the caller handles its error.
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Runs a read-only task once no transaction is in flight.
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return this.enqueue(task);
+  }
+
+  /**
+   * Runs a task inside a SQLite transaction. The transaction is committed when
+   * the task resolves and rolled back when it throws.
+   */
+  runInTransaction<T>(task: () => Promise<T>): Promise<T> {
+    return this.enqueue(async () => {
+      this.sqlite.exec("BEGIN IMMEDIATE");
+      try {
+        const result = await task();
+        this.sqlite.exec("COMMIT");
+        return result;
+      } catch (error) {
+        if (this.sqlite.inTransaction) {
+          this.sqlite.exec("ROLLBACK");
+        }
+        throw error;
+      }
+    });
+  }
+}
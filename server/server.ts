@@ -1,27 +1,107 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import express, { type Express, type Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import cors from "cors";
 import { WebSocketServer, WebSocket } from "ws";
 import http from "http";
 import path from "path";
 import { fileURLToPath, pathToFileURL } from "url";
-import { ZodError } from "zod";
-import { getApiFiles } from "./utils/file-discovery";
+import { prettifyError } from "zod/v4";
+import fs from "fs/promises";
+import { execFile } from "child_process";
+import {
+  getApiFiles,
+  AUTH_CONFIG_FILES,
+  CRONS_FILES,
+  HTTP_FILES,
+  INVALIDATION_CONFIG_FILES,
+  RATE_LIMITS_CONFIG_FILES,
+  STORAGE_CONFIG_FILES,
+  watchApiFiles,
+} from "./utils/file-discovery";
+import { computeApiHash } from "./utils/api-hash";
 
 import type {
   WebSocketMessage,
-  QueryRequestMessage,
-  MutationRequestMessage,
   DataResponseMessage,
   ErrorResponseMessage,
+  SubscribeMessage,
+  UnsubscribeMessage,
+  AuthenticateMessage,
+  AuthenticatedMessage,
+  BatchMessage,
+  HelloMessage,
+  WelcomeMessage,
+  PongMessage,
   RequeryMessage,
+  ServerShutdownMessage,
 } from "../common/web-socket-types";
-import { MessageType } from "../common/web-socket-types";
-import type { WrappedApiFunction, QueryReference } from "convex/_lib/server";
+import { MessageType, PROTOCOL_VERSION } from "../common/web-socket-types";
+import type {
+  WrappedApiFunction,
+  QueryReference,
+  InvalidationFilter,
+  ActionContext,
+} from "convex/_lib/server";
+import type { Auth, AuthVerifier, VerifiedToken } from "convex/_lib/auth";
+import {
+  localDiskStorage,
+  type StorageActionWriter,
+  type StorageBackend,
+  type StorageId,
+  type StorageReader,
+  type StorageWriter,
+} from "convex/_lib/storage";
+import type { RateLimitsConfig } from "convex/_lib/rate-limit";
+import {
+  inProcessInvalidationBus,
+  type Invalidation,
+  type InvalidationBus,
+} from "convex/_lib/invalidation";
 
 import { schema as appSchema } from "../convex/_schema";
-import db from "./lib/database";
+import db, { sqlite } from "./lib/database";
 import { ensureDatabaseSchemaIsUpToDate } from "./lib/schema-initializer";
+import {
+  SubscriptionRegistry,
+  type Subscription,
+  type SubscriptionGroup,
+} from "./lib/subscriptions";
+import {
+  ALL_TABLES,
+  createTableAccessLog,
+  createTrackedDatabase,
+  isAffectedBy,
+  type TableAccessLog,
+} from "./lib/tracked-database";
+import { TransactionManager } from "./lib/transactions";
+import { FunctionScheduler } from "./lib/scheduler";
+import { CronRunner } from "./lib/cron-runner";
+import { Crons } from "../convex/_lib/crons";
+import { HttpRouter, type HttpRoute } from "../convex/_lib/http";
+import { ConvexLiteError, getRetryAfter } from "../convex/_lib/errors";
+import {
+  getHttpStatus,
+  toAuthenticationError,
+  toConvexLiteError,
+  toValidationIssues,
+} from "./lib/errors";
+import { sendFetchResponse, toFetchRequest } from "./lib/http-adapter";
+import { validateReturnValue } from "./lib/return-validation";
+import {
+  FileStorage,
+  fileTooLargeError,
+  STORAGE_ROUTE,
+} from "./lib/file-storage";
+import { RateLimiter } from "./lib/rate-limiter";
+import { HeartbeatMonitor } from "./lib/heartbeats";
+import { LeaderLease } from "./lib/leader-lease";
+import {
+  decodeValue,
+  encodeValue,
+  parseValue,
+  stringifyCanonicalValue,
+  stringifyValue,
+} from "../common/values";
 
 // --- Context & App Setup ---
 
@@ -38,9 +118,73 @@ const reverseApiMap = new Map<WrappedApiFunction<any, any>, string>();
 
 const app: Express = express();
 const port: number | string = process.env.PORT || 3001;
+// Connections are pinged this often, and terminated once they have been
+// silent for the idle timeout.
+const HEARTBEAT_INTERVAL_MS =
+  Number(process.env.HEARTBEAT_INTERVAL_MS) || 15000;
+const IDLE_TIMEOUT_MS = Number(process.env.IDLE_TIMEOUT_MS) || 45000;
+// How long a shutdown waits for requests and jobs in flight, and when clients
+// are told to reconnect, which is about how long a restart takes.
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 10000;
+const SHUTDOWN_RECONNECT_DELAY_MS = 3000;
+// How long another instance waits to take over the scheduled functions and
+// cron jobs when the one running them stops renewing its lease.
+const LEADER_LEASE_MS = Number(process.env.LEADER_LEASE_MS) || 15000;
+// The largest file that can be uploaded, 20 MB by default.
+const MAX_UPLOAD_BYTES =
+  Number(process.env.MAX_UPLOAD_BYTES) || 20 * 1024 * 1024;
+// The largest request body an HTTP action is given, 1 MB by default.
+const MAX_HTTP_BODY_BYTES =
+  Number(process.env.MAX_HTTP_BODY_BYTES) || 1024 * 1024;
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const CONVEX_DIR = path.resolve(__dirname, "../convex");
+const GENERATOR_SCRIPT = path.resolve(
+  __dirname,
+  "../scripts/generate-convex-api.ts"
+);
+
+// e.g., 'tasks/queries.ts' -> 'tasks_queries'
+function getModuleKey(filePath: string): string {
+  return path
+    .relative(CONVEX_DIR, filePath)
+    .replace(/\.(ts|js)$/, "")
+    .replace(/[/\\]/g, "_");
+}
+
+/**
+ * The API functions a module exports, by their full key.
+ */
+function getModuleHandlers(
+  moduleKey: string,
+  module: any
+): Map<string, WrappedApiFunction<any, any>> {
+  const handlers = new Map<string, WrappedApiFunction<any, any>>();
+  for (const exportName in module) {
+    const handlerObject = module[exportName] as WrappedApiFunction<any, any>;
+    if (
+      handlerObject &&
+      (handlerObject._type === "query" ||
+        handlerObject._type === "mutation" ||
+        handlerObject._type === "action")
+    ) {
+      handlers.set(`${moduleKey}:${exportName}`, handlerObject);
+    }
+  }
+  return handlers;
+}
+
+function registerHandlers(handlers: Map<string, WrappedApiFunction<any, any>>) {
+  for (const [fullKey, handlerObject] of handlers) {
+    apiHandlers.set(fullKey, handlerObject);
+    reverseApiMap.set(handlerObject, fullKey);
+    console.log(
+      `Registered ${handlerObject._internal ? "internal " : ""}${
+        handlerObject._type
+      } handler: ${fullKey}`
+    );
+  }
+}
 
 /**
  * The new main handler loading function. It recursively scans the entire
@@ -52,28 +196,7 @@ async function loadApiHandlers() {
   for await (const filePath of getApiFiles(CONVEX_DIR)) {
     try {
       const module = await import(pathToFileURL(filePath).href);
-      // e.g., 'tasks/queries.ts' -> 'tasks_queries'
-      const moduleKey = path
-        .relative(CONVEX_DIR, filePath)
-        .replace(/\.(ts|js)$/, "")
-        .replace(/[/\\]/g, "_");
-
-      for (const exportName in module) {
-        const handlerObject = module[exportName] as WrappedApiFunction<
-          any,
-          any
-        >;
-        if (
-          handlerObject &&
-          (handlerObject._type === "query" ||
-            handlerObject._type === "mutation")
-        ) {
-          const fullKey = `${moduleKey}:${exportName}`;
-          apiHandlers.set(fullKey, handlerObject);
-          reverseApiMap.set(handlerObject, fullKey);
-          console.log(`Registered ${handlerObject._type} handler: ${fullKey}`);
-        }
-      }
+      registerHandlers(getModuleHandlers(getModuleKey(filePath), module));
     } catch (err) {
       console.error(`Error importing module ${filePath}:`, err);
     }
@@ -82,143 +205,1526 @@ async function loadApiHandlers() {
   console.log("API handlers loading complete.");
 }
 
+/**
+ * Imports changed API files again and swaps their functions in. A module
+ * that fails to import keeps its previous functions; a deleted one loses
+ * them. Replaced function objects stay in `reverseApiMap`, so references
+ * held by modules that were not reloaded resolve to the new version.
+ * @returns Whether any module was swapped.
+ */
+async function reloadApiModules(filePaths: string[]): Promise<boolean> {
+  const reloaded = new Map<string, Map<string, WrappedApiFunction<any, any>>>();
+  for (const filePath of filePaths) {
+    const moduleKey = getModuleKey(filePath);
+    try {
+      await fs.access(filePath);
+    } catch {
+      reloaded.set(moduleKey, new Map());
+      continue;
+    }
+    try {
+      // A new URL makes Node evaluate the file again instead of handing out
+      // the cached module. Its own imports still come from the cache.
+      const module = await import(
+        `${pathToFileURL(filePath).href}?reload=${Date.now()}`
+      );
+      reloaded.set(moduleKey, getModuleHandlers(moduleKey, module));
+    } catch (err) {
+      console.error(`Error reloading module ${filePath}:`, err);
+    }
+  }
+
+  // Swap everything at once, so no request sees half of a reload.
+  for (const [moduleKey, handlers] of reloaded) {
+    for (const key of [...apiHandlers.keys()]) {
+      if (key.startsWith(`${moduleKey}:`)) apiHandlers.delete(key);
+    }
+    registerHandlers(handlers);
+  }
+  return reloaded.size > 0;
+}
+
+/**
+ * The fingerprint of the API clients can call, see `computeApiHash`.
+ */
+function getApiHash(): string {
+  return computeApiHash(
+    [...apiHandlers]
+      .filter(([, handlerObject]) => !handlerObject._internal)
+      .map(([key]) => key)
+  );
+}
+
+/**
+ * Runs the code generator in the background, so the client's generated API
+ * picks up functions that were added or removed. It runs with the same
+ * loader as this process, i.e. tsx.
+ */
+function regenerateApi() {
+  execFile(
+    process.execPath,
+    [...process.execArgv, GENERATOR_SCRIPT],
+    (error, _stdout, stderr) => {
+      if (error)
+        console.error("Failed to regenerate the API:", stderr || error);
+    }
+  );
+}
+
+/**
+ * Validates the client-provided arguments against the handler's Zod schema
+ * and runs the handler with them. With a `returns` schema, the result is
+ * validated too.
+ */
+async function executeHandler(
+  handlerObject: WrappedApiFunction<any, any>,
+  handlerContext: any,
+  clientArgs: unknown
+) {
+  let validatedArgs = clientArgs;
+  if (handlerObject.args) {
+    const parseResult = handlerObject.args.safeParse(clientArgs || {});
+    if (!parseResult.success) {
+      throw new ConvexLiteError(
+        "VALIDATION_ERROR",
+        `Argument validation failed:\n${prettifyError(parseResult.error)}`,
+        undefined,
+        toValidationIssues(parseResult.error)
+      );
+    }
+    validatedArgs = parseResult.data;
+  } else if (clientArgs && Object.keys(clientArgs).length > 0) {
+    throw new ConvexLiteError(
+      "VALIDATION_ERROR",
+      "This function does not accept any arguments.",
+      undefined,
+      []
+    );
+  }
+
+  const result = await handlerObject.handler(handlerContext, validatedArgs);
+  return handlerObject.returns
+    ? validateReturnValue(handlerObject.returns, result)
+    : result;
+}
+
+/**
+ * The error the client gets for an error thrown by a function, logged on the
+ * way out.
+ */
+function reportHandlerError(
+  error: unknown,
+  handlerObject: WrappedApiFunction<any, any>,
+  key: string
+): ConvexLiteError {
+  const clientError = toConvexLiteError(error, `${handlerObject._type} ${key}`);
+  console.error(`[${clientError.code}] ${clientError.message}`);
+  return clientError;
+}
+
+/**
+ * Whether a parsed frame has the shape of a message: an object with a `type`,
+ * and for a batch, a `messages` array of such objects.
+ */
+function isWebSocketMessage(value: unknown): value is WebSocketMessage {
+  if (typeof value !== "object" || value === null) return false;
+  const { type, messages } = value as { type?: unknown; messages?: unknown };
+  if (typeof type !== "string") return false;
+  return (
+    type !== MessageType.BATCH ||
+    (Array.isArray(messages) && messages.every(isWebSocketMessage))
+  );
+}
+
+/**
+ * Extracts which function a request message targets and with which arguments.
+ */
+function getRequestTarget(message: WebSocketMessage):
+  | {
+      key: string;
+      args: unknown;
+      type: WrappedApiFunction<any, any>["_type"];
+    }
+  | undefined {
+  switch (message.type) {
+    case MessageType.QUERY:
+    case MessageType.SUBSCRIBE:
+      return { key: message.queryKey, args: message.params, type: "query" };
+    case MessageType.MUTATION:
+      return { key: message.mutationKey, args: message.args, type: "mutation" };
+    case MessageType.ACTION:
+      return { key: message.actionKey, args: message.args, type: "action" };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Looks up a function a client asked to call, over the WebSocket or HTTP.
+ * Fails if there is no such function, it is of a different type, or it is
+ * internal.
+ */
+function lookupClientFunction(
+  key: string,
+  type: WrappedApiFunction<any, any>["_type"]
+):
+  { handlerObject: WrappedApiFunction<any, any> } | { error: ConvexLiteError } {
+  const handlerObject = apiHandlers.get(key);
+  if (!handlerObject) {
+    return {
+      error: new ConvexLiteError(
+        "NOT_FOUND",
+        `Unknown handler for key: ${key}`
+      ),
+    };
+  }
+  if (handlerObject._type !== type) {
+    return {
+      error: new ConvexLiteError(
+        "BAD_REQUEST",
+        `Mismatched handler type for key: ${key}`
+      ),
+    };
+  }
+  if (handlerObject._internal) {
+    return {
+      error: new ConvexLiteError(
+        "FORBIDDEN",
+        `Function ${key} is internal and can only be called from the server.`
+      ),
+    };
+  }
+  return { handlerObject };
+}
+
+/**
+ * Resolves a function reference passed to `ctx.runQuery` and friends. Server
+ * code usually passes the imported function object, while the generated
+ * `api` object holds the string keys.
+ */
+function resolveApiFunction(
+  ref: WrappedApiFunction<any, any> | string,
+  ...expectedTypes: WrappedApiFunction<any, any>["_type"][]
+): { key: string; handlerObject: WrappedApiFunction<any, any> } {
+  const key = typeof ref === "string" ? ref : reverseApiMap.get(ref);
+  const handlerObject = key ? apiHandlers.get(key) : undefined;
+  if (!key || !handlerObject) {
+    throw new Error(
+      `Unknown function reference${key ? ` "${key}"` : ""}. Was the API handler loaded correctly?`
+    );
+  }
+  if (!expectedTypes.includes(handlerObject._type)) {
+    throw new Error(
+      `Expected "${key}" to be a ${expectedTypes.join(" or ")}, but it is a ${handlerObject._type}.`
+    );
+  }
+  return { key, handlerObject };
+}
+
+/**
+ * An invalidation a mutation asked for, held back until the mutation commits.
+ */
+interface PendingInvalidation {
+  queryRef: QueryReference<any, any>;
+  filter?: InvalidationFilter<any>;
+}
+
+/**
+ * Turns the filter given to `scheduler.invalidate` into a predicate over the
+ * arguments of a subscription. Both kinds of filter see the arguments as the
+ * query's schema parsed them. An object filter matches when each of its
+ * properties equals the argument of the same name; values are compared in
+ * canonical form, so key order does not matter.
+ */
+function toArgsMatcher(
+  queryKey: string,
+  filter: InvalidationFilter<any> | undefined
+): (params: unknown) => boolean {
+  if (filter === undefined) return () => true;
+  const schema = apiHandlers.get(queryKey)?.args;
+  const parseArgs = (params: unknown) => {
+    const parseResult = schema?.safeParse(params || {});
+    return parseResult?.success ? parseResult.data : params;
+  };
+  if (typeof filter === "function") {
+    return (params) => filter(parseArgs(params));
+  }
+  const expected = Object.entries(filter ?? {}).map(
+    ([name, value]) => [name, stringifyCanonicalValue(value)] as const
+  );
+  return (params) => {
+    const args = (parseArgs(params) ?? {}) as Record<string, unknown>;
+    return expected.every(
+      ([name, value]) => stringifyCanonicalValue(args[name]) === value
+    );
+  };
+}
+
+/**
+ * Imports the first of the given reserved files that exists in the convex
+ * directory. Reserved files hold configuration and are never scanned for
+ * API handlers.
+ */
+async function importReservedFile(
+  fileNames: string[]
+): Promise<{ fileName: string; module: any } | undefined> {
+  for (const fileName of fileNames) {
+    const filePath = path.join(CONVEX_DIR, fileName);
+    try {
+      await fs.access(filePath);
+    } catch {
+      continue;
+    }
+    return { fileName, module: await import(pathToFileURL(filePath).href) };
+  }
+  return undefined;
+}
+
+/**
+ * Loads the cron job registry that `convex/crons.ts` exports by default.
+ */
+async function loadCronJobs(): Promise<Crons | undefined> {
+  const file = await importReservedFile(CRONS_FILES);
+  if (!file) return undefined;
+  if (!(file.module.default instanceof Crons)) {
+    throw new Error(
+      `${file.fileName} must export the result of cronJobs() as its default export.`
+    );
+  }
+  return file.module.default;
+}
+
+/**
+ * Loads the HTTP routes that `convex/http.ts` exports by default.
+ */
+async function loadHttpRouter(): Promise<HttpRouter | undefined> {
+  const file = await importReservedFile(HTTP_FILES);
+  if (!file) return undefined;
+  if (!(file.module.default instanceof HttpRouter)) {
+    throw new Error(
+      `${file.fileName} must export the result of httpRouter() as its default export.`
+    );
+  }
+  return file.module.default;
+}
+
+/**
+ * Loads the token verifier that `convex/auth.config.ts` exports by default.
+ * Without it, clients cannot authenticate.
+ */
+async function loadAuthVerifier(): Promise<AuthVerifier | undefined> {
+  const file = await importReservedFile(AUTH_CONFIG_FILES);
+  if (!file) return undefined;
+  if (typeof file.module.default !== "function") {
+    throw new Error(
+      `${file.fileName} must export a token verifier as its default export.`
+    );
+  }
+  return file.module.default;
+}
+
+/**
+ * Loads the storage backend that `convex/storage.config.ts` exports by
+ * default. Without it, files are stored on the local disk.
+ */
+async function loadStorageBackend(): Promise<StorageBackend> {
+  const file = await importReservedFile(STORAGE_CONFIG_FILES);
+  if (!file) return localDiskStorage();
+  const backend = file.module.default;
+  if (
+    typeof backend?.write !== "function" ||
+    typeof backend?.read !== "function" ||
+    typeof backend?.delete !== "function"
+  ) {
+    throw new Error(
+      `${file.fileName} must export a storage backend as its default export.`
+    );
+  }
+  return backend;
+}
+
+/**
+ * Loads the rate limits that `convex/rate-limits.config.ts` exports by
+ * default. Without it, only the limits of the functions themselves apply.
+ */
+async function loadRateLimits(): Promise<RateLimitsConfig> {
+  const file = await importReservedFile(RATE_LIMITS_CONFIG_FILES);
+  if (!file) return {};
+  if (typeof file.module.default !== "object" || !file.module.default) {
+    throw new Error(
+      `${file.fileName} must export the rate limits as its default export.`
+    );
+  }
+  return file.module.default;
+}
+
+/**
+ * Loads the invalidation bus that `convex/invalidation.config.ts` exports by
+ * default. Without it, invalidations stay within this process.
+ */
+async function loadInvalidationBus(): Promise<InvalidationBus> {
+  const file = await importReservedFile(INVALIDATION_CONFIG_FILES);
+  if (!file) return inProcessInvalidationBus();
+  const bus = file.module.default;
+  if (
+    typeof bus?.start !== "function" ||
+    typeof bus?.publish !== "function" ||
+    typeof bus?.stop !== "function"
+  ) {
+    throw new Error(
+      `${file.fileName} must export an invalidation bus as its default export.`
+    );
+  }
+  return bus;
+}
+
+/**
+ * Builds `ctx.auth` for a verified token. An expired identity is treated as
+ * no identity at all.
+ */
+function createAuth(verifiedToken: VerifiedToken | null): Auth {
+  return {
+    getUserIdentity: async () =>
+      verifiedToken &&
+      (verifiedToken.expiresAt === undefined ||
+        verifiedToken.expiresAt > Date.now())
+        ? verifiedToken.identity
+        : null,
+  };
+}
+
+// Session ids proposed by clients are used as they are if they look like this.
+const SESSION_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// Scheduled functions and crons are not called by anyone in particular.
+const NO_AUTH = createAuth(null);
+
+/**
+ * The state of one client connection.
+ */
+interface ClientConnection {
+  id: string;
+  // The client's address, which rate limits by IP are keyed on.
+  ip: string;
+  // The session id agreed on in the HELLO handshake; `null` until then.
+  sessionId: string | null;
+  auth: VerifiedToken | null;
+  // The token the connection authenticated with, and the tables verifying it
+  // read. A write to one of them, e.g. a revoked session, checks it again.
+  token: string | null;
+  authReads: Set<string>;
+  // Settles once the latest authentication attempt is done. Requests wait
+  // for it, so they never run with the identity from before.
+  authReady: Promise<void>;
+}
+
 // --- WebSocket Server Logic with Invalidation ---
 async function startServer() {
   await ensureDatabaseSchemaIsUpToDate(db, appSchema);
   await loadApiHandlers();
+  let apiHash = getApiHash();
+  const authVerifier = await loadAuthVerifier();
+  const httpRoutes = await loadHttpRouter();
+  const storageBackend = await loadStorageBackend();
+  const rateLimits = await loadRateLimits();
+  const invalidationBus = await loadInvalidationBus();
+
+  // Once a shutdown has begun, new requests are turned away.
+  let isShuttingDown = false;
+  const shuttingDownError = () =>
+    new ConvexLiteError(
+      "SERVER_SHUTTING_DOWN",
+      "The server is shutting down. Try again in a moment."
+    );
+  // The requests and background work a shutdown waits for.
+  const inFlight = new Set<Promise<void>>();
+  const trackInFlight = <T>(promise: Promise<T>): Promise<T> => {
+    const settled = promise.then(
+      () => undefined,
+      () => undefined
+    );
+    inFlight.add(settled);
+    void settled.then(() => inFlight.delete(settled));
+    return promise;
+  };
 
   app.use(cors());
+  app.use((_req, res, next) => {
+    if (isShuttingDown) {
+      const error = shuttingDownError();
+      res.status(getHttpStatus(error)).json({ error });
+      return;
+    }
+    trackInFlight(new Promise((resolve) => res.on("close", resolve)));
+    next();
+  });
+  // HTTP actions read the raw body themselves, so they go before the body parser.
+  if (httpRoutes) {
+    httpRoutes.routes.forEach((route) =>
+      console.log(
+        `Registered HTTP route: ${route.method} ${route.path ?? `${route.pathPrefix}*`}`
+      )
+    );
+    app.use((req, res, next) => {
+      const route = httpRoutes.lookup(req.method, req.path);
+      if (!route) return next();
+      runHttpAction(route, req, res).catch(next);
+    });
+  }
+
+  // Uploads take the raw file as the body, so they go before the body parser too.
+  app.post(`${STORAGE_ROUTE}/upload`, async (req: Request, res: Response) => {
+    const upload = fileStorage.consumeUploadToken(req.query.token);
+    if (!upload) {
+      const error = new ConvexLiteError(
+        "FORBIDDEN",
+        "The upload URL is invalid, expired or used already."
+      );
+      res.status(getHttpStatus(error)).json({ error });
+      return;
+    }
+    // Turn away files that announce their size before reading any of them.
+    if (Number(req.get("content-length")) > MAX_UPLOAD_BYTES) {
+      const error = fileTooLargeError(MAX_UPLOAD_BYTES);
+      res.status(getHttpStatus(error)).json({ error });
+      return;
+    }
+    try {
+      const storageId = await fileStorage.store(
+        req,
+        req.get("content-type") ?? null,
+        { maxSize: MAX_UPLOAD_BYTES, owner: upload.owner }
+      );
+      res.json({ storageId });
+    } catch (error) {
+      const clientError = toConvexLiteError(error, "file upload");
+      console.error(`[${clientError.code}] ${clientError.message}`);
+      res.status(getHttpStatus(clientError)).json({ error: clientError });
+    }
+  });
+  app.get(
+    `${STORAGE_ROUTE}/:storageId`,
+    async (req: Request, res: Response, next) => {
+      const file = await fileStorage.open(req.params.storageId);
+      if (!file) {
+        const error = new ConvexLiteError("NOT_FOUND", "File not found.");
+        res.status(getHttpStatus(error)).json({ error });
+        return;
+      }
+      const { metadata, contents } = file;
+      // `setHeader` rather than `res.set`, which would add a charset.
+      res.setHeader(
+        "Content-Type",
+        metadata.contentType ?? "application/octet-stream"
+      );
+      res.setHeader("Content-Length", metadata.size);
+      res.setHeader("ETag", `"${metadata.sha256}"`);
+      // A file's contents never change, so it can be cached for good.
+      res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+      contents.on("error", next).pipe(res);
+    }
+  );
+
   app.use(express.json());
+  // A body that is not JSON, or not an object or array, is answered in the
+  // usual error shape instead of with Express's HTML error page.
+  app.use(
+    (
+      error: { type?: string; status?: number; message?: string },
+      _req: Request,
+      res: Response,
+      next: (error?: unknown) => void
+    ) => {
+      if (
+        typeof error?.type !== "string" ||
+        !error.type.startsWith("entity.")
+      ) {
+        return next(error);
+      }
+      const clientError = new ConvexLiteError(
+        "BAD_REQUEST",
+        `Invalid request body: ${error.message}`
+      );
+      res.status(error.status ?? 400).json({ error: clientError });
+    }
+  );
   app.get("/api", (_, res: Response) => {
     res.json({ message: "Hello from server!" });
   });
 
+  // Plain HTTP access to queries and mutations for clients that do not speak
+  // the WebSocket protocol. The JSON body holds the arguments; the answer is
+  // `{ data }` or `{ error }` with a serialized `ConvexLiteError`. Arguments
+  // and data use the same value encoding as WebSocket messages.
+  app.post("/api/:type/:key", async (req: Request, res: Response, next) => {
+    const { type, key } = req.params;
+    if (type !== "query" && type !== "mutation") return next();
+
+    const lookup = lookupClientFunction(key, type);
+    if ("error" in lookup) {
+      res.status(getHttpStatus(lookup.error)).json({ error: lookup.error });
+      return;
+    }
+    const { handlerObject } = lookup;
+
+    const auth = await authenticateHttpRequest(req, res);
+    if (!auth) return;
+
+    let args: unknown;
+    try {
+      args = decodeValue(req.body);
+    } catch (error) {
+      const clientError = new ConvexLiteError(
+        "BAD_REQUEST",
+        `Invalid arguments: ${error instanceof Error ? error.message : error}`
+      );
+      res.status(getHttpStatus(clientError)).json({ error: clientError });
+      return;
+    }
+    try {
+      // Without a connection, callers are told apart by their address.
+      const ip = req.ip ?? "unknown";
+      if (rateLimits.perConnection) {
+        rateLimiter.check("connection", `ip:${ip}`, rateLimits.perConnection);
+      }
+      await checkRateLimit(key, handlerObject, auth, args, {
+        connectionId: `ip:${ip}`,
+        ip,
+      });
+      const data =
+        type === "query"
+          ? await runQuery(handlerObject, args, createTableAccessLog(), auth)
+          : await runMutationAndFlush(handlerObject, args, auth);
+      res.json({ data: encodeValue(data ?? null) });
+    } catch (error) {
+      const clientError = reportHandlerError(error, handlerObject, key);
+      const retryAfter = getRetryAfter(clientError);
+      if (retryAfter !== null) {
+        res.setHeader("Retry-After", Math.ceil(retryAfter / 1000));
+      }
+      res.status(getHttpStatus(clientError)).json({ error: clientError });
+    }
+  });
+
   const server = http.createServer(app);
   const wss = new WebSocketServer({ server });
-  const clients = new Set<WebSocket>();
+  const subscriptions = new SubscriptionRegistry();
+  const connections = new Map<WebSocket, ClientConnection>();
+  const heartbeats = new HeartbeatMonitor({
+    intervalMs: HEARTBEAT_INTERVAL_MS,
+    idleTimeoutMs: IDLE_TIMEOUT_MS,
+  });
+  const rateLimiter = new RateLimiter();
+
+  // Counts a client's call against the function's rate limits, if it has
+  // any. Signed-in users share their limit across connections, and anonymous
+  // ones are told apart by their address, which survives reconnecting.
+  const checkRateLimit = async (
+    key: string,
+    handlerObject: WrappedApiFunction<any, any>,
+    auth: Auth,
+    args: unknown,
+    caller: { connectionId: string; ip: string }
+  ) => {
+    const limits = [handlerObject.rateLimit ?? []].flat();
+    for (const [index, limit] of limits.entries()) {
+      const by = limit.by ?? "user";
+      let callerKey: string;
+      if (by === "global") {
+        callerKey = "*";
+      } else if (by === "ip") {
+        callerKey = `ip:${caller.ip}`;
+      } else if (typeof by === "object") {
+        const value = (args as Record<string, unknown> | undefined)?.[by.arg];
+        callerKey = `arg:${stringifyValue(value ?? null)}`;
+      } else if (by === "connection") {
+        callerKey = `connection:${caller.connectionId}`;
+      } else {
+        const identity = await auth.getUserIdentity();
+        callerKey = identity
+          ? `user:${identity.tokenIdentifier}`
+          : `ip:${caller.ip}`;
+      }
+      // Limits of the same function are kept apart by their position.
+      rateLimiter.check(key, `${index}:${callerKey}`, limit);
+    }
+  };
+
+  const toErrorMessage = (
+    id: string | undefined,
+    error: ConvexLiteError,
+    queryKey?: string
+  ): ErrorResponseMessage => ({
+    type: MessageType.ERROR,
+    id,
+    queryKey,
+    message: error.message,
+    error: error.toJSON(),
+  });
+
+  const transactions = new TransactionManager(sqlite);
+
+  const scheduler = new FunctionScheduler(db, transactions, (name, args) =>
+    runScheduledFunction(name, args)
+  );
+
+  const fileStorage = new FileStorage(db, transactions, storageBackend);
+
+  type Scheduler = ActionContext["scheduler"];
+
+  // `runAfter`/`runAt`/`cancel` for a context. `withTurn` decides how the
+  // write reaches the database: mutations are already inside their
+  // transaction, everything else has to wait for its turn.
+  const createJobScheduling = (
+    withTurn: <T>(write: () => T) => Promise<T>
+  ): Omit<Scheduler, "invalidate"> => {
+    const schedule = (
+      time: number,
+      functionRef: WrappedApiFunction<any, any>,
+      args: unknown
+    ) => {
+      const { key } = resolveApiFunction(functionRef, "mutation", "action");
+      return withTurn(() => scheduler.schedule(time, key, args));
+    };
+    return {
+      runAfter: (delayMs, functionRef, ...args) =>
+        schedule(Date.now() + delayMs, functionRef, args[0]),
+      runAt: (timestamp, functionRef, ...args) =>
+        schedule(new Date(timestamp).getTime(), functionRef, args[0]),
+      cancel: (id) => withTurn(() => scheduler.cancel(id)),
+    };
+  };
+
+  // Queries only read. Invalidating from one would also wait for the re-run
+  // of the subscriptions, which is queued behind the query itself.
+  const queryScheduling: Scheduler = {
+    invalidate: () =>
+      Promise.reject(new Error("Queries cannot invalidate queries.")),
+    runAfter: () =>
+      Promise.reject(new Error("Queries cannot schedule functions.")),
+    runAt: () =>
+      Promise.reject(new Error("Queries cannot schedule functions.")),
+    cancel: () =>
+      Promise.reject(new Error("Queries cannot cancel scheduled functions.")),
+  };
+  const mutationScheduling = createJobScheduling(async (write) => write());
+  const standaloneScheduling = createJobScheduling((write) =>
+    transactions.runExclusive(async () => write())
+  );
+
+  // Queries and mutations already have their turn, so they read file
+  // metadata directly.
+  const storageReader: StorageReader = {
+    getUrl: async (storageId) =>
+      fileStorage.getMetadata(storageId) ? fileStorage.getUrl(storageId) : null,
+    getMetadata: async (storageId) => fileStorage.getMetadata(storageId),
+    list: async (options) => fileStorage.list(options),
+  };
+  const queryStorage: StorageWriter = {
+    ...storageReader,
+    generateUploadUrl: () =>
+      Promise.reject(new Error("Queries cannot generate upload URLs.")),
+    delete: () => Promise.reject(new Error("Queries cannot delete files.")),
+  };
+  // A mutation removes the metadata right away, in its transaction, and
+  // collects the files whose contents go once it has committed.
+  const createMutationStorage = (deletedFiles: StorageId[]): StorageWriter => ({
+    ...storageReader,
+    generateUploadUrl: async (options) =>
+      fileStorage.createUploadUrl(options?.owner),
+    delete: async (storageId) => {
+      if (fileStorage.deleteMetadata(storageId)) deletedFiles.push(storageId);
+    },
+  });
+  const actionStorage: StorageActionWriter = {
+    getUrl: async (storageId) =>
+      (await transactions.runExclusive(async () =>
+        fileStorage.getMetadata(storageId)
+      ))
+        ? fileStorage.getUrl(storageId)
+        : null,
+    getMetadata: (storageId) =>
+      transactions.runExclusive(async () => fileStorage.getMetadata(storageId)),
+    list: (options) =>
+      transactions.runExclusive(async () => fileStorage.list(options)),
+    generateUploadUrl: async (options) =>
+      fileStorage.createUploadUrl(options?.owner),
+    delete: (storageId) => fileStorage.delete(storageId),
+    get: (storageId) => fileStorage.read(storageId),
+    store: (blob, options) => fileStorage.storeBlob(blob, options?.owner),
+  };
+
+  // Every handler gets its own tracked view of the database, so we learn
+  // which tables a query read and which tables a mutation wrote.
+  const createHandlerContext = (
+    accessLog: TableAccessLog,
+    scheduler: Scheduler,
+    storage: StorageWriter,
+    auth: Auth
+  ) => ({
+    db: createTrackedDatabase(db, accessLog),
+    appSchema,
+    auth,
+    scheduler,
+    storage,
+  });
+
+  const runQuery = (
+    handlerObject: WrappedApiFunction<any, any>,
+    params: unknown,
+    accessLog: TableAccessLog,
+    auth: Auth
+  ) =>
+    transactions.runExclusive(() =>
+      executeHandler(
+        handlerObject,
+        createHandlerContext(accessLog, queryScheduling, queryStorage, auth),
+        params
+      )
+    );
+
+  // Runs a mutation inside a transaction. Explicit invalidations are only
+  // recorded while it runs; the caller flushes them together with the
+  // automatic ones once the transaction has committed.
+  const runMutation = async (
+    handlerObject: WrappedApiFunction<any, any>,
+    args: unknown,
+    auth: Auth
+  ) => {
+    const accessLog = createTableAccessLog();
+    const invalidations: PendingInvalidation[] = [];
+    const deletedFiles: StorageId[] = [];
+    const context = createHandlerContext(
+      accessLog,
+      {
+        invalidate: async (queryRef, filter) => {
+          invalidations.push({ queryRef, filter });
+        },
+        ...mutationScheduling,
+      },
+      createMutationStorage(deletedFiles),
+      auth
+    );
+    const result = await transactions.runInTransaction(() =>
+      executeHandler(handlerObject, context, args)
+    );
+    deletedFiles.forEach((storageId) => fileStorage.deleteContents(storageId));
+    return { result, writtenTables: accessLog.writes, invalidations };
+  };
+
+  // Runs a mutation and pushes the resulting invalidations in the background.
+  const runMutationAndFlush = async (
+    handlerObject: WrappedApiFunction<any, any>,
+    args: unknown,
+    auth: Auth
+  ) => {
+    const committed = await runMutation(handlerObject, args, auth);
+    trackInFlight(
+      flushInvalidations(committed.writtenTables, committed.invalidations)
+    ).catch(console.error);
+    return committed.result;
+  };
+
+  // Actions run outside of any transaction and reach the database only
+  // through queries and mutations, which take their turn like any other.
+  const createActionContext = (auth: Auth): ActionContext => ({
+    runQuery: async (queryRef, ...args) => {
+      const { handlerObject } = resolveApiFunction(queryRef, "query");
+      return runQuery(handlerObject, args[0], createTableAccessLog(), auth);
+    },
+    runMutation: async (mutationRef, ...args) => {
+      const { handlerObject } = resolveApiFunction(mutationRef, "mutation");
+      return runMutationAndFlush(handlerObject, args[0], auth);
+    },
+    auth,
+    scheduler: { invalidate: invalidateQuery, ...standaloneScheduling },
+    storage: actionStorage,
+  });
+
+  // A bearer token in the `Authorization` header is checked with the same
+  // verifier as WebSocket tokens. An invalid token is answered with a 401
+  // right away, in which case this returns `null`.
+  async function authenticateHttpRequest(
+    req: Request,
+    res: Response
+  ): Promise<Auth | null> {
+    const authorization = req.get("authorization");
+    if (!authorization?.startsWith("Bearer ")) return NO_AUTH;
+    try {
+      return createAuth(await verifyToken(authorization.slice(7)));
+    } catch (error) {
+      res.status(401).json({ error: toAuthenticationError(error) });
+      return null;
+    }
+  }
+
+  // Runs an HTTP action like any other action.
+  async function runHttpAction(route: HttpRoute, req: Request, res: Response) {
+    const auth = await authenticateHttpRequest(req, res);
+    if (!auth) return;
+
+    let response: globalThis.Response;
+    try {
+      response = await route.handler.handler(
+        createActionContext(auth),
+        await toFetchRequest(req, MAX_HTTP_BODY_BYTES)
+      );
+    } catch (error) {
+      const clientError = toConvexLiteError(
+        error,
+        `HTTP action ${req.method} ${req.path}`
+      );
+      console.error(`[${clientError.code}] ${clientError.message}`);
+      res.status(getHttpStatus(clientError)).json({ error: clientError });
+      return;
+    }
+    await sendFetchResponse(res, response);
+  }
+
+  // Executes a job from the scheduler or a cron. Internal functions are allowed here.
+  async function runScheduledFunction(
+    functionRef: WrappedApiFunction<any, any> | string,
+    args: unknown
+  ) {
+    const { handlerObject } = resolveApiFunction(
+      functionRef,
+      "mutation",
+      "action"
+    );
+    if (handlerObject._type === "mutation") {
+      return runMutationAndFlush(handlerObject, args, NO_AUTH);
+    }
+    return executeHandler(handlerObject, createActionContext(NO_AUTH), args);
+  }
+
+  // Re-runs each group's query once and pushes the fresh result (or error)
+  // to every subscriber, remembering the tables the query read this time.
+  async function refreshSubscriptionGroups(groups: SubscriptionGroup[]) {
+    await Promise.all(
+      groups.map(async ({ queryKey, params, auth, subscribers }) => {
+        const handlerObject = apiHandlers.get(queryKey);
+        if (!handlerObject) return;
+
+        let response: (subscriptionId: string) => WebSocketMessage;
+        const accessLog = createTableAccessLog();
+        try {
+          const result = await runQuery(
+            handlerObject,
+            params,
+            accessLog,
+            createAuth(auth)
+          );
+          response = (subscriptionId) => ({
+            type: MessageType.DATA_UPDATE,
+            id: subscriptionId,
+            queryKey,
+            data: result,
+          });
+        } catch (error) {
+          const clientError = reportHandlerError(
+            error,
+            handlerObject,
+            queryKey
+          );
+          response = (subscriptionId) => ({
+            type: MessageType.ERROR,
+            id: subscriptionId,
+            queryKey,
+            message: clientError.message,
+            error: clientError.toJSON(),
+          });
+        }
+        subscribers.forEach(({ ws, subscription }) => {
+          subscription.readTables = accessLog.reads;
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(stringifyValue(response(subscription.id)));
+          }
+        });
+      })
+    );
+  }
 
-  // The new invalidation function that will be passed in the context
-  const invalidateQuery = async (queryRef: QueryReference<any, any>) => {
+  // Turns a function reference into the key other instances know it by.
+  function toQueryInvalidation({
+    queryRef,
+    filter,
+  }: PendingInvalidation): Invalidation["queries"][number] | null {
     const queryKey = reverseApiMap.get(queryRef);
     if (!queryKey) {
       console.error(
         "Could not find query key for invalidation. Was the API handler loaded correctly?"
       );
-      return;
+      return null;
     }
-    const message: RequeryMessage = {
-      type: MessageType.REQUERY,
-      queryKey,
-    };
-    const messageString = JSON.stringify(message);
-    clients.forEach(
-      (client) =>
-        client.readyState === WebSocket.OPEN && client.send(messageString)
+    return { queryKey, filter };
+  }
+
+  // Explicit invalidation outside of a mutation. Re-runs the query once for
+  // every distinct set of arguments that clients are subscribed with.
+  async function invalidateQuery(
+    queryRef: QueryReference<any, any>,
+    filter?: InvalidationFilter<any>
+  ) {
+    const query = toQueryInvalidation({ queryRef, filter });
+    if (query) await invalidationBus.publish({ tables: [], queries: [query] });
+  }
+
+  // Runs after a mutation has committed. Sends the tables it wrote to and the
+  // queries it invalidated explicitly to every instance.
+  async function flushInvalidations(
+    writtenTables: Set<string>,
+    invalidations: PendingInvalidation[]
+  ) {
+    const queries = invalidations
+      .map(toQueryInvalidation)
+      .filter((query) => query !== null);
+    if (writtenTables.size === 0 && queries.length === 0) return;
+    await invalidationBus.publish({ tables: [...writtenTables], queries });
+  }
+
+  // Applies an invalidation of this or another instance. Re-runs every
+  // subscription whose last run read from one of the tables, plus the ones
+  // to the queries, each distinct query, argument set and user only once.
+  async function applyInvalidation({ tables, queries }: Invalidation) {
+    const writtenTables = new Set(tables);
+    const groups = new Map<string, SubscriptionGroup>();
+    const addGroups = (found: SubscriptionGroup[]) =>
+      found.forEach((group) => groups.set(group.key, group));
+
+    if (writtenTables.size > 0) {
+      recheckAuthentication(writtenTables);
+      addGroups(
+        subscriptions.getGroups((subscription) =>
+          isAffectedBy(subscription.readTables, writtenTables)
+        )
+      );
+    }
+    queries.forEach(({ queryKey, filter }) => {
+      const matchesArgs = toArgsMatcher(queryKey, filter);
+      addGroups(
+        subscriptions.getGroups(
+          (subscription) =>
+            subscription.queryKey === queryKey &&
+            matchesArgs(subscription.params)
+        )
+      );
+    });
+    if (groups.size === 0) return;
+
+    await refreshSubscriptionGroups([...groups.values()]);
+    console.log(
+      `Pushed ${groups.size} subscription update(s) after writes to: ${
+        tables.join(", ") || "(none)"
+      }`
     );
-    console.log(`Broadcasted invalidation for queryKey: ${queryKey}`);
-  };
+  }
 
-  wss.on("connection", (ws: WebSocket) => {
-    console.log("Client connected");
-    clients.add(ws);
+  const verifyToken = async (
+    token: string,
+    accessLog: TableAccessLog = createTableAccessLog()
+  ): Promise<VerifiedToken> => {
+    if (!authVerifier) {
+      throw new Error(
+        "Authentication is not configured. Add a verifier in convex/auth.config.ts."
+      );
+    }
+    const verified = await transactions.runExclusive(() =>
+      authVerifier(token, { db: createTrackedDatabase(db, accessLog) })
+    );
+    if (!verified) {
+      throw new Error("Invalid token.");
+    }
+    return verified;
+  };
 
-    ws.on("message", async (messageString: string) => {
-      let message: WebSocketMessage;
+  // Queues an authentication attempt for a connection. Afterwards, its live
+  // subscriptions are re-run, since their results may depend on who asks.
+  const authenticate = (
+    ws: WebSocket,
+    connection: ClientConnection,
+    token: string | null,
+    requestId?: string
+  ) => {
+    connection.authReady = connection.authReady.then(async () => {
+      const accessLog = createTableAccessLog();
       try {
-        message = JSON.parse(messageString) as WebSocketMessage;
+        connection.auth =
+          token === null ? null : await verifyToken(token, accessLog);
+        connection.token = token;
+        connection.authReads = accessLog.reads;
+        const response: AuthenticatedMessage = {
+          type: MessageType.AUTHENTICATED,
+          id: requestId,
+          identity: connection.auth?.identity ?? null,
+          expiresAt: connection.auth?.expiresAt,
+        };
+        ws.send(stringifyValue(response));
       } catch (error) {
+        connection.auth = null;
+        connection.token = null;
+        connection.authReads = new Set();
         ws.send(
-          JSON.stringify({
-            type: MessageType.ERROR,
-            message: `Invalid JSON: ${error}`,
-          })
+          stringifyValue(
+            toErrorMessage(requestId, toAuthenticationError(error))
+          )
         );
+      }
+
+      subscriptions.setConnectionAuth(ws, connection.auth);
+      await refreshSubscriptionGroups(
+        subscriptions.getGroups((_, subscriber) => subscriber === ws)
+      );
+    });
+  };
+
+  // Checks the tokens again whose verification read a table that was written
+  // to, e.g. when a session was deleted by signing out. Connections whose
+  // token stopped working are signed out, and told so with an AUTHENTICATED
+  // message without an id.
+  const recheckAuthentication = (writtenTables: Set<string>) => {
+    for (const [ws, connection] of connections) {
+      const { token } = connection;
+      if (token === null) continue;
+      if (!isAffectedBy(connection.authReads, writtenTables)) continue;
+      connection.authReady = connection.authReady.then(async () => {
+        // The connection may have authenticated with another token meanwhile.
+        if (connection.token !== token) return;
+        const accessLog = createTableAccessLog();
+        try {
+          connection.auth = await verifyToken(token, accessLog);
+          connection.authReads = accessLog.reads;
+          return;
+        } catch {
+          connection.auth = null;
+          connection.token = null;
+          connection.authReads = new Set();
+        }
+        if (ws.readyState === WebSocket.OPEN) {
+          const response: AuthenticatedMessage = {
+            type: MessageType.AUTHENTICATED,
+            identity: null,
+          };
+          ws.send(stringifyValue(response));
+        }
+        subscriptions.setConnectionAuth(ws, null);
+        await refreshSubscriptionGroups(
+          subscriptions.getGroups((_, subscriber) => subscriber === ws)
+        );
+      });
+    }
+  };
+
+  // Answers the HELLO that opens every connection. Clients that speak another
+  // version of the protocol are turned away; a client built against another
+  // API is only warned about, since it may well keep working.
+  const welcome = (
+    ws: WebSocket,
+    connection: ClientConnection,
+    hello: HelloMessage
+  ) => {
+    if (connection.sessionId !== null) {
+      const error = new ConvexLiteError(
+        "BAD_REQUEST",
+        "The connection has already been set up."
+      );
+      ws.send(stringifyValue(toErrorMessage(hello.id, error)));
+      return;
+    }
+    if (hello.protocolVersion !== PROTOCOL_VERSION) {
+      const error = new ConvexLiteError(
+        "UNSUPPORTED_PROTOCOL",
+        `The client speaks protocol version ${hello.protocolVersion}, but the server speaks version ${PROTOCOL_VERSION}. Reload the page to update the client.`,
+        {
+          clientVersion: hello.protocolVersion,
+          serverVersion: PROTOCOL_VERSION,
+        }
+      );
+      ws.send(stringifyValue(toErrorMessage(hello.id, error)));
+      ws.close(1002, "Unsupported protocol version");
+      return;
+    }
+
+    connection.sessionId =
+      typeof hello.sessionId === "string" &&
+      SESSION_ID_PATTERN.test(hello.sessionId)
+        ? hello.sessionId
+        : crypto.randomUUID();
+    if (hello.apiHash !== undefined && hello.apiHash !== apiHash) {
+      console.warn(
+        `Session ${connection.sessionId} was built against another API (${hello.apiHash}, server: ${apiHash}). Its calls may fail until the client is reloaded.`
+      );
+    }
+    const response: WelcomeMessage = {
+      type: MessageType.WELCOME,
+      id: hello.id,
+      protocolVersion: PROTOCOL_VERSION,
+      sessionId: connection.sessionId,
+      apiHash,
+    };
+    ws.send(stringifyValue(response));
+  };
+
+  wss.on("connection", (ws: WebSocket, request: http.IncomingMessage) => {
+    console.log("Client connected");
+    heartbeats.track(ws);
+
+    const connection: ClientConnection = {
+      id: crypto.randomUUID(),
+      ip: request.socket.remoteAddress ?? "unknown",
+      sessionId: null,
+      auth: null,
+      token: null,
+      authReads: new Set(),
+      authReady: Promise.resolve(),
+    };
+    connections.set(ws, connection);
+    // The token can be passed in the query string, e.g. `ws://host?token=...`,
+    // or sent in an AUTHENTICATE message.
+    const token = new URL(
+      request.url ?? "/",
+      "http://localhost"
+    ).searchParams.get("token");
+    if (token) authenticate(ws, connection, token);
+
+    // Handles a single request. Its answers go through `reply`, so the
+    // answers to a batch can be sent together.
+    const handleMessage = async (
+      message: WebSocketMessage,
+      reply: (response: WebSocketMessage) => void
+    ) => {
+      if (message.type === MessageType.UNSUBSCRIBE) {
+        subscriptions.remove(ws, (message as UnsubscribeMessage).id);
+        return;
+      }
+      if (message.type === MessageType.AUTHENTICATE) {
+        const { token, id } = message as AuthenticateMessage;
+        authenticate(ws, connection, token, id);
         return;
       }
 
-      // ** The new context now includes the scheduler **
-      const handlerContext = {
-        db,
-        appSchema,
-        scheduler: { invalidate: invalidateQuery },
-      };
+      await connection.authReady;
+      const auth = createAuth(connection.auth);
 
-      const isQuery = message.type === MessageType.QUERY;
-      const key = isQuery
-        ? (message as QueryRequestMessage).queryKey
-        : (message as MutationRequestMessage).mutationKey;
-      const clientArgs = isQuery
-        ? (message as QueryRequestMessage).params
-        : (message as MutationRequestMessage).args;
-      const handlerObject = apiHandlers.get(key);
-
-      const sendError = (id: string | undefined, message: string) => {
-        const errorMsg: ErrorResponseMessage = {
-          type: MessageType.ERROR,
-          id,
-          message,
-        };
-        ws.send(JSON.stringify(errorMsg));
-      };
+      const target = getRequestTarget(message);
+      if (!target) {
+        return reply(
+          toErrorMessage(
+            message.id,
+            new ConvexLiteError(
+              "BAD_REQUEST",
+              `Unsupported message type: ${message.type}`
+            )
+          )
+        );
+      }
+      const { key, args: clientArgs } = target;
+      const isQuery = target.type === "query";
+      const lookup = lookupClientFunction(key, target.type);
+      if ("error" in lookup) {
+        return reply(toErrorMessage(message.id, lookup.error));
+      }
+      const { handlerObject } = lookup;
 
-      if (!handlerObject) {
-        return sendError(message.id, `Unknown handler for key: ${key}`);
+      try {
+        if (rateLimits.perConnection) {
+          rateLimiter.check(
+            "connection",
+            connection.id,
+            rateLimits.perConnection
+          );
+        }
+        await checkRateLimit(key, handlerObject, auth, clientArgs, {
+          connectionId: connection.id,
+          ip: connection.ip,
+        });
+      } catch (error) {
+        const clientError = toConvexLiteError(error, `${target.type} ${key}`);
+        return reply(
+          toErrorMessage(message.id, clientError, isQuery ? key : undefined)
+        );
       }
-      if (
-        (isQuery && handlerObject._type !== "query") ||
-        (!isQuery && handlerObject._type !== "mutation")
-      ) {
-        return sendError(message.id, `Mismatched handler type for key: ${key}`);
+
+      // Register before running, so an invalidation that lands while the
+      // initial result is in flight is not lost. Until the first run tells us
+      // what the query reads, any write counts as relevant.
+      let subscription: Subscription | undefined;
+      if (message.type === MessageType.SUBSCRIBE) {
+        subscription = {
+          id: (message as SubscribeMessage).id,
+          queryKey: key,
+          params: clientArgs,
+          readTables: new Set([ALL_TABLES]),
+          auth: connection.auth,
+        };
+        subscriptions.add(ws, subscription);
       }
 
       try {
-        let validatedArgs = clientArgs;
-        if (handlerObject.args) {
-          const parseResult = handlerObject.args.safeParse(clientArgs || {});
-          if (!parseResult.success) {
-            throw parseResult.error;
+        let result: unknown;
+        let committed: Awaited<ReturnType<typeof runMutation>> | undefined;
+        if (isQuery) {
+          const accessLog = createTableAccessLog();
+          result = await runQuery(handlerObject, clientArgs, accessLog, auth);
+          if (subscription) {
+            subscription.readTables = accessLog.reads;
           }
-          validatedArgs = parseResult.data;
-        } else if (clientArgs && Object.keys(clientArgs).length > 0) {
-          throw new Error("This function does not accept any arguments.");
+        } else if (target.type === "mutation") {
+          committed = await runMutation(handlerObject, clientArgs, auth);
+          result = committed.result;
+        } else {
+          result = await executeHandler(
+            handlerObject,
+            createActionContext(auth),
+            clientArgs
+          );
         }
 
-        const result = await handlerObject.handler(
-          handlerContext,
-          validatedArgs
-        );
-
         const response: DataResponseMessage<unknown> = {
           type: MessageType.DATA_UPDATE,
           id: message.id,
           queryKey: isQuery ? key : undefined,
           data: result,
         };
-        ws.send(JSON.stringify(response));
-      } catch (error) {
-        let errorMessage = `Error in ${handlerObject._type} ${key}: ${
-          error instanceof Error ? error.message : String(error)
-        }`;
-        if (error instanceof ZodError) {
-          errorMessage = `Argument validation failed: ${JSON.stringify(
-            error.format()
-          )}`;
+        reply(response);
+
+        if (committed) {
+          trackInFlight(
+            flushInvalidations(committed.writtenTables, committed.invalidations)
+          ).catch(console.error);
         }
-        console.error(errorMessage);
-        sendError(message.id, errorMessage);
+      } catch (error) {
+        const clientError = reportHandlerError(error, handlerObject, key);
+        reply(
+          toErrorMessage(message.id, clientError, isQuery ? key : undefined)
+        );
+      }
+    };
+
+    const receive = async (messageString: string) => {
+      let message: unknown;
+      try {
+        message = parseValue(messageString);
+      } catch (error) {
+        const invalidJson = new ConvexLiteError(
+          "BAD_REQUEST",
+          `Invalid JSON: ${error}`
+        );
+        ws.send(stringifyValue(toErrorMessage(undefined, invalidJson)));
+        return;
       }
+      if (!isWebSocketMessage(message)) {
+        const invalidMessage = new ConvexLiteError(
+          "BAD_REQUEST",
+          "A message must be an object with a type, and a batch needs a messages array."
+        );
+        ws.send(stringifyValue(toErrorMessage(undefined, invalidMessage)));
+        return;
+      }
+
+      // Clients ping to find out whether the connection is still alive.
+      if (message.type === MessageType.PING) {
+        const pong: PongMessage = { type: MessageType.PONG, id: message.id };
+        ws.send(stringifyValue(pong));
+        return;
+      }
+      if (message.type === MessageType.HELLO) {
+        welcome(ws, connection, message as HelloMessage);
+        return;
+      }
+      if (connection.sessionId === null) {
+        const error = new ConvexLiteError(
+          "BAD_REQUEST",
+          "Send a HELLO message before anything else."
+        );
+        ws.send(stringifyValue(toErrorMessage(message.id, error)));
+        return;
+      }
+      if (isShuttingDown) {
+        const requests =
+          message.type === MessageType.BATCH
+            ? (message as BatchMessage).messages
+            : [message];
+        requests.forEach((request) =>
+          ws.send(
+            stringifyValue(toErrorMessage(request.id, shuttingDownError()))
+          )
+        );
+        return;
+      }
+
+      if (message.type !== MessageType.BATCH) {
+        await handleMessage(message, (response) =>
+          ws.send(stringifyValue(response))
+        );
+        return;
+      }
+      // The requests of a batch run side by side, and their answers go back
+      // together in one batch once the last of them is done.
+      const responses: WebSocketMessage[] = [];
+      await Promise.all(
+        (message as BatchMessage).messages.map((request) =>
+          handleMessage(request, (response) => responses.push(response))
+        )
+      );
+      if (responses.length > 0 && ws.readyState === WebSocket.OPEN) {
+        const batch: BatchMessage = {
+          type: MessageType.BATCH,
+          messages: responses,
+        };
+        ws.send(stringifyValue(batch));
+      }
+    };
+    ws.on("message", (messageString: string) => {
+      trackInFlight(receive(messageString)).catch((error) =>
+        console.error("[WebSocket] Failed to handle a message:", error)
+      );
     });
 
     ws.on("close", () => {
-      clients.delete(ws);
+      connections.delete(ws);
+      subscriptions.removeConnection(ws);
       console.log("Client disconnected");
     });
     ws.on("error", (error: Error) => {
       console.error("WebSocket error:", error);
-      clients.delete(ws);
+      subscriptions.removeConnection(ws);
     });
   });
 
+  // Swaps in edited API files without a restart, so open tabs keep their
+  // connections. Every live subscription is asked to re-subscribe, which
+  // runs the new code.
+  const hotReload = async (filePaths: string[]) => {
+    if (!(await reloadApiModules(filePaths))) return;
+    apiHash = getApiHash();
+    regenerateApi();
+    for (const [ws, queryKeys] of subscriptions.getQueryKeysByConnection()) {
+      if (ws.readyState !== WebSocket.OPEN || queryKeys.size === 0) continue;
+      const batch: BatchMessage = {
+        type: MessageType.BATCH,
+        messages: [...queryKeys].map((queryKey): RequeryMessage => ({
+          type: MessageType.REQUERY,
+          queryKey,
+        })),
+      };
+      ws.send(stringifyValue(batch));
+    }
+    console.log(
+      `Hot-reloaded ${filePaths
+        .map((filePath) => path.relative(CONVEX_DIR, filePath))
+        .join(", ")}`
+    );
+  };
+
+  heartbeats.start();
+  // Changes to anything but API files still need a restart.
+  const stopWatching =
+    process.env.NODE_ENV !== "production"
+      ? watchApiFiles(CONVEX_DIR, (filePaths) =>
+          hotReload(filePaths).catch(console.error)
+        )
+      : () => undefined;
+  await invalidationBus.start((invalidation) =>
+    trackInFlight(applyInvalidation(invalidation))
+  );
+
+  const cronRunner = new CronRunner(db, transactions, (job) =>
+    runScheduledFunction(job.functionRef, job.args)
+  );
+  // A broken `crons.ts` disables the crons rather than the whole server.
+  let crons: Crons | undefined;
+  try {
+    crons = await loadCronJobs();
+    // Catch bad references at startup instead of on the first run.
+    crons?.jobs.forEach((job) =>
+      resolveApiFunction(job.functionRef, "mutation", "action")
+    );
+  } catch (error) {
+    console.error("[Crons] Not running any cron jobs:", error);
+    crons = undefined;
+  }
+  // Of all the instances sharing the database, only the leader runs the
+  // scheduled functions and cron jobs. Starting them re-queues the jobs that
+  // were left in progress, which is only safe once no one else runs them.
+  const backgroundJobs = new LeaderLease(db, transactions, "background jobs", {
+    durationMs: LEADER_LEASE_MS,
+    renewIntervalMs: LEADER_LEASE_MS / 3,
+  });
+  await backgroundJobs.start({
+    onElected: async () => {
+      await scheduler.start();
+      if (crons) await cronRunner.start(crons.jobs.values());
+    },
+    onDeposed: async () => {
+      await Promise.allSettled([scheduler.stop(), cronRunner.stop()]);
+    },
+  });
+
+  // Stops without cutting anything off: new requests are turned away, the
+  // ones in flight and the running jobs get until the deadline to finish,
+  // and clients are told to reconnect before the database is closed.
+  const shutdown = async (signal: NodeJS.Signals) => {
+    isShuttingDown = true;
+    console.log(`Received ${signal}, shutting down...`);
+    server.close();
+    heartbeats.stop();
+    stopWatching();
+
+    const drain = async () => {
+      // Hands the lease to another instance once the jobs have finished.
+      await backgroundJobs.stop();
+      // Finishing a request can start more work, e.g. pushing invalidations.
+      while (inFlight.size > 0) await Promise.all(inFlight);
+      await transactions.runExclusive(async () => undefined);
+      return true;
+    };
+    let deadline: ReturnType<typeof setTimeout> | undefined;
+    const drained = await Promise.race([
+      drain(),
+      new Promise<false>((resolve) => {
+        deadline = setTimeout(() => resolve(false), SHUTDOWN_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(deadline);
+    if (!drained) {
+      console.warn(
+        `Stopped waiting for requests and jobs after ${SHUTDOWN_TIMEOUT_MS}ms. Unfinished jobs run again after the restart.`
+      );
+    }
+
+    const goodbye: ServerShutdownMessage = {
+      type: MessageType.SERVER_SHUTDOWN,
+      reconnectAfterMs: SHUTDOWN_RECONNECT_DELAY_MS,
+    };
+    const closed = [...wss.clients].map((ws) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(stringifyValue(goodbye));
+      ws.close(1001, "Server shutting down");
+      return new Promise((resolve) => ws.once("close", resolve));
+    });
+    // Give clients a moment to complete the closing handshake.
+    await Promise.race([
+      Promise.all(closed),
+      new Promise((resolve) => setTimeout(resolve, 1000)),
+    ]);
+
+    await invalidationBus.stop();
+    // An open transaction, left behind by a handler that missed the
+    // deadline, is rolled back.
+    sqlite.close();
+    console.log("Shutdown complete.");
+    process.exit(0);
+  };
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.on(signal, () => {
+      // A second signal means the caller does not want to wait.
+      if (isShuttingDown) process.exit(1);
+      shutdown(signal).catch((error) => {
+        console.error("Shutdown failed:", error);
+        process.exit(1);
+      });
+    });
+  }
+
   server.listen(port, () => console.log(`Server listening on port ${port}`));
 }
 
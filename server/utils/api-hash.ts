@@ -0,0 +1,16 @@
+import crypto from "crypto";
+
+/**
+ * A short fingerprint of the public API, computed from the keys of its
+ * functions, e.g. `tasks:createTask`. The code generator writes it into
+ * `convex/_generated/api.js` and the server computes it from the functions
+ * it loaded, so the two can tell whether a client was built against the
+ * API the server is running.
+ */
+export function computeApiHash(functionKeys: Iterable<string>): string {
+  return crypto
+    .createHash("sha256")
+    .update([...functionKeys].sort().join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+}
@@ -1,12 +1,83 @@
+import { watch } from "fs";
 import fs from "fs/promises";
 import path from "path";
 
 // --- Shared Configuration ---
 export const CONVEX_DIR = path.resolve("convex");
 
-const IGNORED_FILES = ["_schema.ts", "server.ts"];
+// Reserved filenames that hold configuration rather than API handlers.
+export const CRONS_FILES = ["crons.ts", "crons.js"];
+export const AUTH_CONFIG_FILES = ["auth.config.ts", "auth.config.js"];
+export const HTTP_FILES = ["http.ts", "http.js"];
+export const STORAGE_CONFIG_FILES = ["storage.config.ts", "storage.config.js"];
+export const RATE_LIMITS_CONFIG_FILES = [
+  "rate-limits.config.ts",
+  "rate-limits.config.js",
+];
+export const INVALIDATION_CONFIG_FILES = [
+  "invalidation.config.ts",
+  "invalidation.config.js",
+];
+
+const IGNORED_FILES = [
+  "_schema.ts",
+  "server.ts",
+  ...CRONS_FILES,
+  ...AUTH_CONFIG_FILES,
+  ...HTTP_FILES,
+  ...STORAGE_CONFIG_FILES,
+  ...RATE_LIMITS_CONFIG_FILES,
+  ...INVALIDATION_CONFIG_FILES,
+];
 const IGNORED_DIRS = ["_generated", "_lib"];
 
+// Editors often save a file in several steps, so changes are collected for a
+// moment before they are reported.
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Whether a file in the given directory holds API handlers, by the same
+ * rules `getApiFiles` scans with.
+ */
+export function isApiFile(filePath: string, dir: string = CONVEX_DIR) {
+  const segments = path.relative(dir, filePath).split(path.sep);
+  const fileName = segments.pop()!;
+  return (
+    !segments.some((segment) => IGNORED_DIRS.includes(segment)) &&
+    (fileName.endsWith(".ts") || fileName.endsWith(".js")) &&
+    !IGNORED_FILES.includes(fileName)
+  );
+}
+
+/**
+ * Watches a directory for API files that are added, changed or removed, and
+ * calls `onChange` with their paths once a burst of changes has settled.
+ * @returns A function that stops watching.
+ */
+export function watchApiFiles(
+  dir: string,
+  onChange: (filePaths: string[]) => void
+): () => void {
+  const changed = new Set<string>();
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const watcher = watch(dir, { recursive: true }, (_event, fileName) => {
+    if (!fileName) return;
+    const filePath = path.resolve(dir, fileName);
+    if (!isApiFile(filePath, dir)) return;
+    changed.add(filePath);
+    clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      const filePaths = [...changed];
+      changed.clear();
+      onChange(filePaths);
+    }, WATCH_DEBOUNCE_MS);
+  });
+  return () => {
+    clearTimeout(timeout);
+    watcher.close();
+  };
+}
+
 /**
  * Recursively finds all valid API source files within a directory,
  * respecting the ignore lists.
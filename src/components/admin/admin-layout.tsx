@@ -53,6 +53,17 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, tableNames }) => {
                 </Link>
               </Button>
             ))}
+            <h2 className="text-lg font-semibold mt-6 mb-3 px-2 text-zinc-300">
+              System
+            </h2>
+            <Button variant="ghost" className="w-full justify-start" asChild>
+              <Link
+                to="/admin/crons"
+                activeProps={{ className: "bg-secondary" }}
+              >
+                Cron jobs
+              </Link>
+            </Button>
           </div>
         </ScrollArea>
       </ResizablePanel>
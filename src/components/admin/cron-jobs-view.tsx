@@ -0,0 +1,98 @@
+import React from "react";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useQuery } from "../../hooks/use-convex-lite";
+import { api } from "convex/_generated/api";
+import type { CronSchedule } from "convex/_lib/crons";
+
+const formatSchedule = (schedule: CronSchedule) =>
+  schedule.type === "interval"
+    ? `Every ${schedule.ms / 1000}s`
+    : schedule.expression;
+
+const formatTime = (time: number | null) =>
+  time === null ? "Never" : new Date(time).toLocaleString();
+
+const CronJobsView: React.FC = () => {
+  const { data: jobs, error } = useQuery(api.tables.getCronJobs);
+
+  if (error) {
+    return (
+      <p className="p-4 text-red-500">
+        Error loading cron jobs: {error.message || "Failed to load data"}
+      </p>
+    );
+  }
+
+  if (!jobs) {
+    return <p className="p-4 text-zinc-400">Loading cron jobs...</p>;
+  }
+
+  return (
+    <div className="p-6 text-zinc-50">
+      <h2 className="text-2xl font-bold mb-6 text-zinc-100">Cron jobs</h2>
+      {jobs.length === 0 ? (
+        <p className="text-zinc-400">
+          No cron jobs are declared in convex/crons.ts.
+        </p>
+      ) : (
+        <Table className="border border-zinc-700">
+          <TableCaption className="text-zinc-400 py-4">
+            Every run is logged in the "_cron_runs" system table.
+          </TableCaption>
+          <TableHeader className="bg-zinc-800">
+            <TableRow className="border-b border-zinc-700">
+              {["Name", "Schedule", "Last run", "Status", "Next run"].map(
+                (heading) => (
+                  <TableHead
+                    key={heading}
+                    className="text-zinc-200 font-semibold p-3"
+                  >
+                    {heading}
+                  </TableHead>
+                )
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => (
+              <TableRow
+                key={job.name}
+                className="border-b border-zinc-700 hover:bg-zinc-800 transition-colors"
+              >
+                <TableCell className="p-3 text-zinc-300">{job.name}</TableCell>
+                <TableCell className="p-3 text-zinc-300 font-mono">
+                  {formatSchedule(job.schedule)}
+                </TableCell>
+                <TableCell className="p-3 text-zinc-300">
+                  {formatTime(job.lastRunAt)}
+                </TableCell>
+                <TableCell
+                  className={
+                    job.lastState === "failed"
+                      ? "p-3 text-red-500"
+                      : "p-3 text-zinc-300"
+                  }
+                >
+                  {job.isRunning ? "running" : (job.lastState ?? "N/A")}
+                </TableCell>
+                <TableCell className="p-3 text-zinc-300">
+                  {formatTime(job.nextRunAt)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default CronJobsView;
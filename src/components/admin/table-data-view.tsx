@@ -1,4 +1,5 @@
 import React, { useEffect, useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
 import {
   Table,
   TableBody,
@@ -8,10 +9,12 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { useQuery } from "../../hooks/use-convex-lite"; // Import useQuery
+import { usePaginatedQuery } from "../../hooks/use-convex-lite";
 import { api } from "convex/_generated/api";
 import { useParams } from "@tanstack/react-router";
 
+const PAGE_SIZE = 50;
+
 const TableDataView: React.FC = () => {
   const tableName = useParams({
     from: "/admin/$tableName",
@@ -26,15 +29,18 @@ const TableDataView: React.FC = () => {
     return tableName ? { tableNameString: tableName } : undefined;
   }, [tableName]);
 
-  // Query for the table data using the new API endpoint
+  // Query for the table data page by page, oldest rows first.
   // tableName is asserted as string here because the component returns early if it's not.
   const {
-    data: rawData, // Expected to be Record<string, unknown>[] | null
+    results: rawData,
+    status,
     isLoading,
+    loadMore,
     error,
-  } = useQuery(
+  } = usePaginatedQuery(
     api.tables.getAdminTableData,
-    queryParams as { tableNameString: string }
+    queryParams as { tableNameString: string },
+    { initialNumItems: PAGE_SIZE }
   );
 
   useEffect(() => {
@@ -69,16 +75,11 @@ const TableDataView: React.FC = () => {
     );
   }
 
-  // If there's a tableName, but no data, no columns derived, and not loading, and no error yet,
-  // it could be an empty table or data is genuinely null.
-  // The new 'get_admin_table_data' API will throw an error for non-existent tables,
+  // Until the first page arrives there is nothing to tell yet.
+  // The 'get_admin_table_data' API will throw an error for non-existent tables,
   // which should be caught by the 'error' state above.
-  if (tableName && !rawData && !isLoading && !error) {
-    return (
-      <p className="p-4 text-zinc-400">
-        No data available for table: {tableName}, or table is empty.
-      </p>
-    );
+  if (status === "LoadingFirstPage") {
+    return <p className="p-4 text-zinc-400">Loading data for {tableName}...</p>;
   }
 
   // If rawData is an empty array and columns were not derived (or derived as empty)
@@ -103,52 +104,66 @@ const TableDataView: React.FC = () => {
         Table: {tableName}
       </h2>
       {columns.length > 0 && rawData && rawData.length > 0 ? (
-        <Table className="border border-zinc-700">
-          <TableCaption className="text-zinc-400 py-4">
-            A list of records from the "{tableName}" table.
-          </TableCaption>
-          <TableHeader className="bg-zinc-800">
-            <TableRow className="border-b border-zinc-700 hover:bg-zinc-750">
-              {columns.map((columnName) => (
-                <TableHead
-                  key={columnName}
-                  className="text-zinc-200 font-semibold p-3"
-                >
-                  {columnName}
-                </TableHead>
-              ))}
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {rawData.map((row: Record<string, unknown>, rowIndex: number) => {
-              // row is already Record<string, unknown> due to useQuery typing
-              return (
-                <TableRow
-                  key={(row._id as string) || rowIndex} // Assuming _id is primary key
-                  className="border-b border-zinc-700 hover:bg-zinc-800 transition-colors"
-                >
-                  {columns.map((columnName) => {
-                    const cellValue = row[columnName];
-                    return (
-                      <TableCell
-                        key={`${columnName}-${(row._id as string) || rowIndex}`}
-                        className="p-3 text-zinc-300"
-                      >
-                        {typeof cellValue === "boolean"
-                          ? cellValue
-                            ? "True"
-                            : "False"
-                          : typeof cellValue === "object" && cellValue !== null
-                            ? JSON.stringify(cellValue)
-                            : String(cellValue ?? "N/A")}
-                      </TableCell>
-                    );
-                  })}
-                </TableRow>
-              );
-            })}
-          </TableBody>
-        </Table>
+        <>
+          <Table className="border border-zinc-700">
+            <TableCaption className="text-zinc-400 py-4">
+              A list of records from the "{tableName}" table.
+            </TableCaption>
+            <TableHeader className="bg-zinc-800">
+              <TableRow className="border-b border-zinc-700 hover:bg-zinc-750">
+                {columns.map((columnName) => (
+                  <TableHead
+                    key={columnName}
+                    className="text-zinc-200 font-semibold p-3"
+                  >
+                    {columnName}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rawData.map((row: Record<string, unknown>, rowIndex: number) => {
+                // row is already Record<string, unknown> due to useQuery typing
+                return (
+                  <TableRow
+                    key={(row._id as string) || rowIndex} // Assuming _id is primary key
+                    className="border-b border-zinc-700 hover:bg-zinc-800 transition-colors"
+                  >
+                    {columns.map((columnName) => {
+                      const cellValue = row[columnName];
+                      return (
+                        <TableCell
+                          key={`${columnName}-${(row._id as string) || rowIndex}`}
+                          className="p-3 text-zinc-300"
+                        >
+                          {typeof cellValue === "boolean"
+                            ? cellValue
+                              ? "True"
+                              : "False"
+                            : typeof cellValue === "object" &&
+                                cellValue !== null
+                              ? JSON.stringify(cellValue)
+                              : String(cellValue ?? "N/A")}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {status !== "Exhausted" && (
+            <div className="flex justify-center py-4">
+              <Button
+                variant="outline"
+                disabled={isLoading}
+                onClick={() => loadMore(PAGE_SIZE)}
+              >
+                {isLoading ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </>
       ) : (
         // This case should ideally be covered by earlier checks (isLoading, error, no data, empty table)
         // If tableName is present, but we reach here, it implies an unexpected state.
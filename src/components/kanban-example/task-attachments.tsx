@@ -0,0 +1,116 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useMutation } from "@/hooks/use-convex-lite";
+import { api } from "convex/_generated/api";
+import type { Task } from "./types";
+
+interface TaskAttachmentsProps {
+  task: Task;
+}
+
+export function TaskAttachments({ task }: TaskAttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { mutate: generateUploadUrl } = useMutation(
+    api.attachments.generateUploadUrl
+  );
+  const { mutate: addAttachment } = useMutation(api.attachments.addAttachment);
+  const { mutate: deleteAttachment } = useMutation(
+    api.attachments.deleteAttachment
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      // 1. Get a short-lived upload URL, 2. upload the file to it,
+      // 3. attach the stored file to the task.
+      const uploadUrl = await generateUploadUrl();
+      if (!uploadUrl) throw new Error("The server returned no upload URL.");
+      const response = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      // Failed uploads answer `{ error }` with the reason, e.g. FILE_TOO_LARGE.
+      const body = await response.json().catch(() => null);
+      if (!response.ok || typeof body?.storageId !== "string") {
+        throw new Error(
+          body?.error?.message ?? `Upload failed: ${response.status}`
+        );
+      }
+      await addAttachment({
+        taskId: task._id,
+        storageId: body.storageId,
+        name: file.name,
+      });
+    } catch (error) {
+      console.error("[Kanban] Attachment upload failed:", error);
+      setError(
+        `Could not attach ${file.name}: ${(error as Error).message || "Unknown error"}`
+      );
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-1">
+      {task.attachments.map((attachment) => (
+        <div
+          key={attachment._id}
+          className="flex items-center justify-between text-xs"
+        >
+          {attachment.url ? (
+            <a
+              href={attachment.url}
+              target="_blank"
+              rel="noreferrer"
+              className="truncate text-blue-500 hover:underline"
+            >
+              📎 {attachment.name}
+            </a>
+          ) : (
+            <span className="truncate text-zinc-500">📎 {attachment.name}</span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 text-zinc-500 hover:text-red-500"
+            onClick={() =>
+              deleteAttachment({ id: attachment._id }).catch((error) =>
+                setError(
+                  `Could not remove ${attachment.name}: ${error.message || "Unknown error"}`
+                )
+              )
+            }
+          >
+            <span className="sr-only">Remove attachment</span>×
+          </Button>
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-1 text-xs text-zinc-500"
+        disabled={isUploading}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {isUploading ? "Uploading..." : "+ Attach file"}
+      </Button>
+    </div>
+  );
+}
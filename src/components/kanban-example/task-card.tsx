@@ -5,6 +5,7 @@ import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { Task } from "./types";
 import { TaskDialog } from "./task-dialog";
+import { TaskAttachments } from "./task-attachments";
 
 interface TaskCardProps {
   task: Task;
@@ -78,6 +79,7 @@ export function TaskCard({ task }: TaskCardProps) {
           {task.description}
         </p>
       )}
+      <TaskAttachments task={task} />
       <div className="flex justify-between items-center mt-4 pt-2 border-t border-zinc-100 dark:border-zinc-800">
         <span className="text-xs text-zinc-500">
           ID: {task._id.slice(0, 8)}...
@@ -1,3 +1,13 @@
+export interface Attachment {
+  _id: string;
+  _createdAt: number;
+  _updatedAt: number;
+  taskId: string;
+  storageId: string;
+  name: string;
+  url: string | null; // `null` if the file is gone
+}
+
 export interface Task {
   _id: string;
   _createdAt: number;
@@ -5,6 +15,7 @@ export interface Task {
   title: string;
   description: string;
   columnId: string;
+  attachments: Attachment[];
 }
 
 export interface Column {
@@ -0,0 +1,249 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useCallback, useState } from "react";
+import type {
+  ActionRequestMessage,
+  MutationRequestMessage,
+} from "../../common/web-socket-types";
+import { MessageType } from "../../common/web-socket-types";
+import { api } from "convex/_generated/api";
+import type { WrappedApiFunction } from "convex/_lib/server";
+import type { ConvexLiteError } from "convex/_lib/errors";
+import type { SessionToken, User } from "convex/_lib/password-auth";
+import { connectionManager } from "common/connection-manager";
+import type { ArgsType, RetType } from "common/query-cache";
+import { sendRequest, useQuery } from "./use-convex-lite";
+
+// --- Session Storage ---
+
+const SESSION_STORAGE_KEY = "convex-lite:session";
+
+function loadSession(): SessionToken | null {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SessionToken) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeSession(session: SessionToken | null) {
+  if (session) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+function callMutation<T extends WrappedApiFunction<any, any>>(
+  mutationFunctionReference: T,
+  ...args: ArgsType<T> extends void ? [] : [ArgsType<T>]
+): Promise<RetType<T>> {
+  const mutationMessage: MutationRequestMessage = {
+    type: MessageType.MUTATION,
+    mutationKey: mutationFunctionReference as unknown as string,
+    args: args[0],
+  };
+  return sendRequest<RetType<T>>(mutationMessage);
+}
+
+function callAction<T extends WrappedApiFunction<any, any>>(
+  actionFunctionReference: T,
+  ...args: ArgsType<T> extends void ? [] : [ArgsType<T>]
+): Promise<RetType<T>> {
+  const actionMessage: ActionRequestMessage = {
+    type: MessageType.ACTION,
+    actionKey: actionFunctionReference as unknown as string,
+    args: args[0],
+  };
+  return sendRequest<RetType<T>>(actionMessage);
+}
+
+// --- Connection Authentication ---
+
+// Tabs share the session, so they rotate it one at a time.
+const SESSION_LOCK_NAME = "convex-lite:session-rotation";
+
+// The token the connection last authenticated with.
+let connectionToken: string | null = null;
+let rotation: Promise<string | null> | null = null;
+
+// Forgets the session, unless another tab has replaced it already.
+function clearSession(token: string) {
+  if (loadSession()?.token === token) storeSession(null);
+}
+
+// The Web Locks API is missing in insecure contexts, where every tab rotates
+// on its own.
+function withSessionLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === "undefined" || !navigator.locks) return task();
+  return navigator.locks.request(SESSION_LOCK_NAME, task);
+}
+
+/**
+ * Swaps the session of `token` for a fresh one, or picks up the one another
+ * tab swapped it for. Needs a connection authenticated with `token`.
+ * @returns The token to authenticate with, `null` once the session is gone.
+ */
+function rotateSession(token: string): Promise<string | null> {
+  rotation ??= withSessionLock(async () => {
+    const session = loadSession();
+    if (!session || session.token !== token) return session?.token ?? null;
+    try {
+      const freshSession = await callMutation(api.auth.refreshSession);
+      storeSession(freshSession);
+      return freshSession.token;
+    } catch (error) {
+      // Only a session the server rejects is over. After anything else,
+      // e.g. a lost connection, it is tried again later.
+      if ((error as ConvexLiteError).code === "UNAUTHENTICATED") {
+        clearSession(token);
+        return null;
+      }
+      console.error("[Convex-Lite] Auth: Rotation failed:", error);
+      return token;
+    }
+  }).finally(() => {
+    rotation = null;
+  });
+  return rotation;
+}
+
+// Swaps the session for a fresh one once it is due.
+function rotateSessionIfDue() {
+  const session = loadSession();
+  if (!session || Date.now() < session.refreshAt) return;
+  void rotateSession(session.token).then((token) => {
+    if (token !== session.token) authenticateConnection();
+  });
+}
+
+async function fetchToken({
+  forceRefreshToken,
+}: {
+  forceRefreshToken: boolean;
+}): Promise<string | null> {
+  const session = loadSession();
+  if (!session || session.expiresAt <= Date.now()) {
+    storeSession(null);
+    connectionToken = null;
+    return null;
+  }
+  connectionToken = session.token;
+  if (forceRefreshToken && connectionManager.status === "connected") {
+    // The session is about to expire or was rejected. Rotating only works
+    // while it is still valid.
+    connectionToken = await rotateSession(session.token);
+  }
+  return connectionToken;
+}
+
+function authenticateConnection() {
+  connectionManager.setAuth(fetchToken, (isAuthenticated) => {
+    if (isAuthenticated) {
+      rotateSessionIfDue();
+      return;
+    }
+    // The session may have been rotated, or replaced by a sign-in, in
+    // another tab since. Then the connection catches up instead.
+    const session = loadSession();
+    if (session && session.token !== connectionToken) {
+      authenticateConnection();
+    } else if (connectionToken) {
+      clearSession(connectionToken);
+    }
+  });
+}
+
+// Pick up the session from an earlier visit.
+if (loadSession()) authenticateConnection();
+
+// Follow the other tabs when they sign in or out, or rotate the session.
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key !== SESSION_STORAGE_KEY) return;
+    if (event.newValue) {
+      authenticateConnection();
+    } else {
+      connectionManager.clearAuth();
+    }
+  });
+}
+
+// --- Hooks ---
+
+export interface UseCurrentUserResult {
+  user: User | null | undefined; // `undefined` until the server answered
+  isLoading: boolean;
+}
+
+/**
+ * The signed-in user, or `null` when signed out. Updates live when the user
+ * signs in or out, in this tab or through a rejected session.
+ */
+export function useCurrentUser(): UseCurrentUserResult {
+  const { data, isLoading } = useQuery(api.auth.currentUser);
+  return { user: data, isLoading };
+}
+
+export interface UseAuthActions {
+  signUp: (username: string, password: string) => Promise<void>;
+  signIn: (username: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  isLoading: boolean;
+  error: ConvexLiteError | null;
+}
+
+/**
+ * Signs the user up, in and out with the built-in username/password auth.
+ * The session is kept in localStorage and re-used on the next visit.
+ */
+export function useAuthActions(): UseAuthActions {
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<ConvexLiteError | null>(null);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await task();
+    } catch (error) {
+      setError(error as ConvexLiteError);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const signUp = useCallback(
+    (username: string, password: string) =>
+      run(async () => {
+        storeSession(await callAction(api.auth.signUp, { username, password }));
+        authenticateConnection();
+      }),
+    [run]
+  );
+
+  const signIn = useCallback(
+    (username: string, password: string) =>
+      run(async () => {
+        storeSession(await callAction(api.auth.signIn, { username, password }));
+        authenticateConnection();
+      }),
+    [run]
+  );
+
+  const signOut = useCallback(
+    () =>
+      run(async () => {
+        try {
+          await callMutation(api.auth.signOut);
+        } finally {
+          storeSession(null);
+          connectionManager.clearAuth();
+        }
+      }),
+    [run]
+  );
+
+  return { signUp, signIn, signOut, isLoading, error };
+}
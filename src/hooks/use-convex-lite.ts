@@ -4,19 +4,27 @@ import {
   useEffect,
   useRef,
   useCallback,
+  useMemo,
   useSyncExternalStore,
 } from "react";
 import type {
-  QueryRequestMessage,
+  SubscribeMessage,
+  UnsubscribeMessage,
   DataResponseMessage,
   ErrorResponseMessage,
   WebSocketMessage,
   MutationRequestMessage,
+  ActionRequestMessage,
   RequeryMessage,
 } from "../../common/web-socket-types";
 import { MessageType } from "../../common/web-socket-types";
 import { v4 as uuidv4 } from "uuid";
-import type { WrappedApiFunction } from "convex/_lib/server";
+import type {
+  PaginationOptions,
+  PaginationResult,
+  WrappedApiFunction,
+} from "convex/_lib/server";
+import { ConvexLiteError } from "convex/_lib/errors";
 import {
   connectionManager,
   type ConnectionStatus,
@@ -44,6 +52,96 @@ function isErrorResponseMessage(
 function isRequeryMessage(msg: WebSocketMessage): msg is RequeryMessage {
   return msg.type === MessageType.REQUERY;
 }
+
+/**
+ * Sends a one-off request under a fresh id and resolves with the `data` of the matching
+ * response, or rejects with a `ConvexLiteError` built from the matching error. For use
+ * outside of components; inside them, prefer the hooks.
+ */
+export function sendRequest<TData>(message: WebSocketMessage): Promise<TData> {
+  const requestId = uuidv4();
+  return new Promise((resolve, reject) => {
+    const unsubscribe = connectionManager.subscribeToMessages(
+      (response: WebSocketMessage) => {
+        if (response.id !== requestId) return;
+        if (isDataResponseMessage<TData>(response)) {
+          unsubscribe();
+          resolve(response.data);
+        } else if (isErrorResponseMessage(response)) {
+          unsubscribe();
+          reject(ConvexLiteError.fromJSON(response.error));
+        }
+      }
+    );
+    connectionManager.sendMessage({ ...message, id: requestId });
+  });
+}
+
+/**
+ * Subscribes to a query. The server answers with an initial `DATA_UPDATE` and
+ * then pushes a new one every time the query is invalidated. Returns a
+ * function that ends the subscription.
+ */
+function openSubscription<TData>(
+  queryKey: string,
+  params: unknown,
+  onData: (data: TData) => void,
+  onError: (error: ConvexLiteError) => void
+): () => void {
+  const subscriptionId = uuidv4();
+  const unsubscribe = connectionManager.subscribeToMessages(
+    (message: WebSocketMessage) => {
+      if (message.id !== subscriptionId) return;
+      if (isDataResponseMessage<TData>(message)) {
+        onData(message.data);
+      } else if (isErrorResponseMessage(message)) {
+        onError(ConvexLiteError.fromJSON(message.error));
+      }
+    }
+  );
+
+  const subscribeMessage: SubscribeMessage = {
+    type: MessageType.SUBSCRIBE,
+    id: subscriptionId,
+    queryKey,
+    params,
+  };
+  connectionManager.sendMessage(subscribeMessage);
+
+  return () => {
+    unsubscribe();
+    // A dropped connection already cleared the subscription on the server.
+    if (connectionManager.status === "connected") {
+      const unsubscribeMessage: UnsubscribeMessage = {
+        type: MessageType.UNSUBSCRIBE,
+        id: subscriptionId,
+      };
+      connectionManager.sendMessage(unsubscribeMessage);
+    }
+  };
+}
+
+/**
+ * Calls `onRequery` when the server asks clients to re-subscribe to the
+ * query, e.g. when it can no longer vouch for the data it pushed before.
+ * `matchesParams` narrows down requeries that name specific arguments.
+ */
+function subscribeToRequeries(
+  queryKey: string,
+  matchesParams: (params: unknown) => boolean,
+  onRequery: () => void
+): () => void {
+  return connectionManager.subscribeToMessages((message: WebSocketMessage) => {
+    if (
+      isRequeryMessage(message) &&
+      message.queryKey === queryKey &&
+      (message.params === undefined || matchesParams(message.params))
+    ) {
+      onRequery();
+    }
+  });
+}
+
 type QueryHookArgs<T extends WrappedApiFunction<any, any>> =
   ArgsType<T> extends void ? [] : [ArgsType<T>];
 
@@ -60,7 +158,7 @@ export function useConnectionState(): ConnectionStatus {
 export interface UseQueryResult<TData> {
   data: TData | undefined;
   isLoading: boolean;
-  error: ErrorResponseMessage | null;
+  error: ConvexLiteError | null;
 }
 
 export function useQuery<T extends WrappedApiFunction<any, any>>(
@@ -78,61 +176,205 @@ export function useQuery<T extends WrappedApiFunction<any, any>>(
   );
 
   const [isLoading, setIsLoading] = useState<boolean>(!data); // Only loading if data isn't already in cache
-  const [error, setError] = useState<ErrorResponseMessage | null>(null);
+  const [error, setError] = useState<ConvexLiteError | null>(null);
 
-  const [refetchIndex, setRefetchIndex] = useState(0);
-  const refetch = useCallback(() => setRefetchIndex((i) => i + 1), []);
+  const [resubscribeIndex, setResubscribeIndex] = useState(0);
+  const resubscribe = useCallback(() => setResubscribeIndex((i) => i + 1), []);
 
   const connectionStatus = useConnectionState();
 
+  // The params object is usually recreated on every render, so the
+  // subscription is keyed by `cacheKey` and reads the latest params from a ref.
+  const queryParamsRef = useRef(queryParams);
+  queryParamsRef.current = queryParams;
+
   useEffect(() => {
     if (!queryKeyString || connectionStatus !== "connected") return;
 
-    let isCancelled = false;
-    const requestId = uuidv4();
-
     setIsLoading(true);
     setError(null);
-    const queryMessage: QueryRequestMessage = {
-      type: MessageType.QUERY,
-      id: requestId,
-      queryKey: queryKeyString,
-      params: queryParams,
-    };
-    connectionManager.sendMessage(queryMessage);
 
-    const unsubscribe = connectionManager.subscribeToMessages(
-      (message: WebSocketMessage) => {
-        if (isCancelled || message.id !== requestId) return;
-        if (isDataResponseMessage<RetType<T>>(message)) {
-          // When data arrives, write it to the central cache.
-          queryCache.set(cacheKey, message.data);
-          setIsLoading(false);
-        } else if (isErrorResponseMessage(message)) {
-          setError(message);
-          setIsLoading(false);
-        }
+    return openSubscription<RetType<T>>(
+      queryKeyString,
+      queryParamsRef.current,
+      (data) => {
+        // When data arrives, write it to the central cache.
+        queryCache.set(cacheKey, data);
+        setError(null);
+        setIsLoading(false);
+      },
+      (error) => {
+        setError(error);
+        setIsLoading(false);
       }
     );
+  }, [queryKeyString, resubscribeIndex, connectionStatus, cacheKey]);
 
-    return () => {
-      isCancelled = true;
-      unsubscribe();
-    };
-  }, [queryKeyString, queryParams, refetchIndex, connectionStatus, cacheKey]);
+  useEffect(
+    () =>
+      subscribeToRequeries(
+        queryKeyString,
+        (params) => getQueryCacheKey(queryKeyString, params) === cacheKey,
+        resubscribe
+      ),
+    [queryKeyString, cacheKey, resubscribe]
+  );
+
+  return { data, isLoading, error };
+}
+
+// --- usePaginatedQuery ---
+
+type PaginatedQueryReference = WrappedApiFunction<any, PaginationResult<any>>;
+
+type PaginatedQueryItem<T extends PaginatedQueryReference> =
+  RetType<T> extends PaginationResult<infer Item> ? Item : never;
+
+export type PaginationStatus =
+  "LoadingFirstPage" | "CanLoadMore" | "LoadingMore" | "Exhausted";
+
+export interface UsePaginatedQueryResult<Item> {
+  results: Item[]; // The items of all loaded pages
+  status: PaginationStatus;
+  isLoading: boolean;
+  loadMore: (numItems: number) => void;
+  error: ConvexLiteError | null;
+}
+
+interface PageRequest {
+  id: string;
+  paginationOpts: PaginationOptions;
+}
+
+/**
+ * Loads a paginated query page by page. The query takes a `paginationOpts`
+ * argument and returns a `PaginationResult`; pass its other arguments as
+ * `args`. Every loaded page is a live subscription of its own, so all of them
+ * stay up to date. Once a page is followed by another, it is pinned to the
+ * cursor it ended at, so inserts and deletes never shift items between pages.
+ */
+export function usePaginatedQuery<T extends PaginatedQueryReference>(
+  queryFunctionReference: T,
+  args: Omit<ArgsType<T>, "paginationOpts">,
+  options: { initialNumItems: number }
+): UsePaginatedQueryResult<PaginatedQueryItem<T>> {
+  type Page = PaginationResult<PaginatedQueryItem<T>>;
+  const queryKeyString = queryFunctionReference as unknown as string;
+  const argsKey = getQueryCacheKey(queryKeyString, args);
 
+  const createFirstPage = (): PageRequest[] => [
+    {
+      id: uuidv4(),
+      paginationOpts: { numItems: options.initialNumItems, cursor: null },
+    },
+  ];
+  const [pages, setPages] = useState<PageRequest[]>(createFirstPage);
+  const [results, setResults] = useState<Record<string, Page>>({});
+  const [error, setError] = useState<ConvexLiteError | null>(null);
+
+  // Different arguments start over from the first page.
+  const [pagesArgsKey, setPagesArgsKey] = useState(argsKey);
+  if (pagesArgsKey !== argsKey) {
+    setPagesArgsKey(argsKey);
+    setPages(createFirstPage());
+    setResults({});
+    setError(null);
+  }
+
+  const [resubscribeIndex, setResubscribeIndex] = useState(0);
+  const resubscribe = useCallback(() => setResubscribeIndex((i) => i + 1), []);
+
+  const connectionStatus = useConnectionState();
+
+  const argsRef = useRef(args);
+  argsRef.current = args;
+
+  // The live subscription of every page, with the options it was opened with.
+  const subscriptionsRef = useRef(
+    new Map<string, { paginationOpts: PaginationOptions; close: () => void }>()
+  );
+
+  // Opens subscriptions for new and re-pinned pages and closes those of
+  // pages that are gone. Pages that did not change keep their subscription.
   useEffect(() => {
-    const unsubscribe = connectionManager.subscribeToMessages(
-      (message: WebSocketMessage) => {
-        if (isRequeryMessage(message) && message.queryKey === queryKeyString) {
-          refetch();
-        }
+    if (connectionStatus !== "connected") return;
+    const subscriptions = subscriptionsRef.current;
+    const pageIds = new Set(pages.map((page) => page.id));
+    subscriptions.forEach((subscription, pageId) => {
+      if (!pageIds.has(pageId)) {
+        subscription.close();
+        subscriptions.delete(pageId);
       }
-    );
-    return unsubscribe;
-  }, [queryKeyString, refetch]);
+    });
+    pages.forEach(({ id, paginationOpts }) => {
+      const existing = subscriptions.get(id);
+      if (existing?.paginationOpts === paginationOpts) return;
+      existing?.close();
+      // The page keeps showing its previous result until the new one arrives.
+      const close = openSubscription<Page>(
+        queryKeyString,
+        { ...argsRef.current, paginationOpts },
+        (page) => {
+          setResults((current) => ({ ...current, [id]: page }));
+          setError(null);
+        },
+        setError
+      );
+      subscriptions.set(id, { paginationOpts, close });
+    });
+  }, [pages, queryKeyString, resubscribeIndex, connectionStatus]);
 
-  return { data, isLoading, error };
+  // Closes every subscription on unmount, disconnect and requery.
+  useEffect(() => {
+    if (connectionStatus !== "connected") return;
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach((subscription) => subscription.close());
+      subscriptions.clear();
+    };
+  }, [queryKeyString, resubscribeIndex, connectionStatus]);
+
+  useEffect(
+    () => subscribeToRequeries(queryKeyString, () => true, resubscribe),
+    [queryKeyString, resubscribe]
+  );
+
+  const lastPage = pages[pages.length - 1];
+  const lastResult = results[lastPage.id];
+  let status: PaginationStatus;
+  if (!results[pages[0].id]) {
+    status = "LoadingFirstPage";
+  } else if (!lastResult) {
+    status = "LoadingMore";
+  } else {
+    status = lastResult.isDone ? "Exhausted" : "CanLoadMore";
+  }
+
+  const loadMore = (numItems: number) => {
+    const cursor = lastResult?.continueCursor;
+    if (status !== "CanLoadMore" || !cursor) return;
+    setPages([
+      ...pages.slice(0, -1),
+      {
+        ...lastPage,
+        paginationOpts: { ...lastPage.paginationOpts, endCursor: cursor },
+      },
+      { id: uuidv4(), paginationOpts: { numItems, cursor } },
+    ]);
+  };
+
+  const items = useMemo(
+    () => pages.flatMap((page) => results[page.id]?.page ?? []),
+    [pages, results]
+  );
+
+  return {
+    results: items,
+    status,
+    isLoading: status === "LoadingFirstPage" || status === "LoadingMore",
+    loadMore,
+    error,
+  };
 }
 
 // --- useMutation with Optimistic Updates ---
@@ -141,7 +383,7 @@ export function useQuery<T extends WrappedApiFunction<any, any>>(
 export interface UseMutation<T extends WrappedApiFunction<any, any>> {
   mutate: (args: ArgsType<T>) => Promise<RetType<T> | undefined>;
   isLoading: boolean;
-  error: ErrorResponseMessage | null;
+  error: ConvexLiteError | null;
   withOptimisticUpdate: (
     optimisticUpdate: OptimisticUpdate<T>
   ) => UseMutation<T>;
@@ -152,7 +394,7 @@ export function useMutation<T extends WrappedApiFunction<any, any>>(
 ): UseMutation<T> {
   const mutationKeyString = mutationFunctionReference as unknown as string;
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<ErrorResponseMessage | null>(null);
+  const [error, setError] = useState<ConvexLiteError | null>(null);
 
   // A ref to hold the user-provided optimistic update function.
   const optimisticUpdateRef = useRef<OptimisticUpdate<T> | null>(null);
@@ -174,32 +416,24 @@ export function useMutation<T extends WrappedApiFunction<any, any>>(
 
       setIsLoading(true);
       setError(null);
-      const requestId = uuidv4();
       const mutationMessage: MutationRequestMessage = {
         type: MessageType.MUTATION,
-        id: requestId,
         mutationKey: mutationKeyString,
         args: mutateArgs,
       };
-      connectionManager.sendMessage(mutationMessage);
-
-      const unsubscribe = connectionManager.subscribeToMessages(
-        (message: WebSocketMessage) => {
-          if (message.id !== requestId) return;
-          if (isDataResponseMessage(message)) {
-            setIsLoading(false);
-            resolve(message.data as RetType<T>);
-            unsubscribe();
-          } else if (isErrorResponseMessage(message)) {
-            setIsLoading(false);
-            setError(message);
-            // In a real implementation, you would revert the optimistic update here.
-            console.error(
-              "[Convex-Lite] Mutation failed. UI may be in an inconsistent state."
-            );
-            reject(message);
-            unsubscribe();
-          }
+      sendRequest<RetType<T>>(mutationMessage).then(
+        (data) => {
+          setIsLoading(false);
+          resolve(data);
+        },
+        (error: ConvexLiteError) => {
+          setIsLoading(false);
+          setError(error);
+          // In a real implementation, you would revert the optimistic update here.
+          console.error(
+            "[Convex-Lite] Mutation failed. UI may be in an inconsistent state."
+          );
+          reject(error);
         }
       );
     });
@@ -214,3 +448,46 @@ export function useMutation<T extends WrappedApiFunction<any, any>>(
 
   return { mutate, isLoading, error, withOptimisticUpdate };
 }
+
+// --- useAction ---
+
+export interface UseAction<T extends WrappedApiFunction<any, any>> {
+  run: (args: ArgsType<T>) => Promise<RetType<T>>;
+  isLoading: boolean;
+  error: ConvexLiteError | null;
+}
+
+/**
+ * Runs an action on the server. Actions do not touch the client cache; any
+ * data they change reaches subscribed queries through the usual invalidation.
+ */
+export function useAction<T extends WrappedApiFunction<any, any>>(
+  actionFunctionReference: T
+): UseAction<T> {
+  const actionKeyString = actionFunctionReference as unknown as string;
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<ConvexLiteError | null>(null);
+
+  const run = useCallback(
+    async (runArgs: ArgsType<T>): Promise<RetType<T>> => {
+      setIsLoading(true);
+      setError(null);
+      const actionMessage: ActionRequestMessage = {
+        type: MessageType.ACTION,
+        actionKey: actionKeyString,
+        args: runArgs,
+      };
+      try {
+        return await sendRequest<RetType<T>>(actionMessage);
+      } catch (error) {
+        setError(error as ConvexLiteError);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [actionKeyString]
+  );
+
+  return { run, isLoading, error };
+}
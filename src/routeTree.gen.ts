@@ -12,6 +12,7 @@ import { Route as rootRouteImport } from './routes/__root'
 import { Route as KanbanRouteImport } from './routes/kanban'
 import { Route as AdminRouteImport } from './routes/admin'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as AdminCronsRouteImport } from './routes/admin/crons'
 import { Route as AdminTableNameRouteImport } from './routes/admin/$tableName'
 
 const KanbanRoute = KanbanRouteImport.update({
@@ -29,6 +30,11 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminCronsRoute = AdminCronsRouteImport.update({
+  id: '/crons',
+  path: '/crons',
+  getParentRoute: () => AdminRoute,
+} as any)
 const AdminTableNameRoute = AdminTableNameRouteImport.update({
   id: '/$tableName',
   path: '/$tableName',
@@ -40,12 +46,14 @@ export interface FileRoutesByFullPath {
   '/admin': typeof AdminRouteWithChildren
   '/kanban': typeof KanbanRoute
   '/admin/$tableName': typeof AdminTableNameRoute
+  '/admin/crons': typeof AdminCronsRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/admin': typeof AdminRouteWithChildren
   '/kanban': typeof KanbanRoute
   '/admin/$tableName': typeof AdminTableNameRoute
+  '/admin/crons': typeof AdminCronsRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -53,13 +61,20 @@ export interface FileRoutesById {
   '/admin': typeof AdminRouteWithChildren
   '/kanban': typeof KanbanRoute
   '/admin/$tableName': typeof AdminTableNameRoute
+  '/admin/crons': typeof AdminCronsRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/admin' | '/kanban' | '/admin/$tableName'
+  fullPaths: '/' | '/admin' | '/kanban' | '/admin/$tableName' | '/admin/crons'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/admin' | '/kanban' | '/admin/$tableName'
-  id: '__root__' | '/' | '/admin' | '/kanban' | '/admin/$tableName'
+  to: '/' | '/admin' | '/kanban' | '/admin/$tableName' | '/admin/crons'
+  id:
+    | '__root__'
+    | '/'
+    | '/admin'
+    | '/kanban'
+    | '/admin/$tableName'
+    | '/admin/crons'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -91,6 +106,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/crons': {
+      id: '/admin/crons'
+      path: '/crons'
+      fullPath: '/admin/crons'
+      preLoaderRoute: typeof AdminCronsRouteImport
+      parentRoute: typeof AdminRoute
+    }
     '/admin/$tableName': {
       id: '/admin/$tableName'
       path: '/$tableName'
@@ -103,10 +125,12 @@ declare module '@tanstack/react-router' {
 
 interface AdminRouteChildren {
   AdminTableNameRoute: typeof AdminTableNameRoute
+  AdminCronsRoute: typeof AdminCronsRoute
 }
 
 const AdminRouteChildren: AdminRouteChildren = {
   AdminTableNameRoute: AdminTableNameRoute,
+  AdminCronsRoute: AdminCronsRoute,
 }
 
 const AdminRouteWithChildren = AdminRoute._addFileChildren(AdminRouteChildren)
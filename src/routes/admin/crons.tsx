@@ -0,0 +1,6 @@
+import { createFileRoute } from "@tanstack/react-router";
+import CronJobsView from "@/components/admin/cron-jobs-view";
+
+export const Route = createFileRoute("/admin/crons")({
+  component: CronJobsView,
+});